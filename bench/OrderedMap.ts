@@ -0,0 +1,61 @@
+import { OrderedMap } from "../src/OrderedMap";
+import { defaultComparatorFn } from "../src/shared";
+
+// The previous storage: writes drop the sorted cache and the next read re-sorts everything.
+class ResortingMap<K, V> extends Map<K, V> {
+    private _sortedEntries?: Array<[K, V]>;
+
+    set(key: K, value: V): this {
+        this._sortedEntries = undefined;
+        return super.set(key, value);
+    }
+
+    delete(key: K): boolean {
+        this._sortedEntries = undefined;
+        return super.delete(key);
+    }
+
+    *keys(): IterableIterator<K> {
+        if (this._sortedEntries === undefined) {
+            this._sortedEntries = Array.from(super.entries());
+            this._sortedEntries.sort(([a], [b]) => defaultComparatorFn(a, b));
+        }
+        for (const [k] of this._sortedEntries) {
+            yield k;
+        }
+    }
+}
+
+function time(label: string, fn: () => void): void {
+    const start = performance.now();
+    fn();
+    console.log(`${label.padEnd(40)} ${(performance.now() - start).toFixed(1)}ms`);
+}
+
+function interleaved(map: Map<number, number>, n: number): void {
+    let seed = 1;
+    for (let i = 0; i < n; i++) {
+        seed = (seed * 16807) % 2147483647;
+        map.set(seed, i);
+        if (i % 10 === 0) {
+            map.keys().next();
+        }
+    }
+}
+
+function bulk(map: Map<number, number>, n: number): void {
+    let seed = 1;
+    for (let i = 0; i < n; i++) {
+        seed = (seed * 16807) % 2147483647;
+        map.set(seed, i);
+    }
+    for (const _ of map.keys()) {
+    }
+}
+
+const n = Number(process.argv[2] ?? 20_000);
+console.log(`n = ${n}`);
+time("re-sorting: bulk insert, then iterate", () => bulk(new ResortingMap(), n));
+time("tree: bulk insert, then iterate", () => bulk(new OrderedMap(), n));
+time("re-sorting: insert, read every 10th", () => interleaved(new ResortingMap(), n));
+time("tree: insert, read every 10th", () => interleaved(new OrderedMap(), n));
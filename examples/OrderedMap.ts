@@ -1,14 +1,18 @@
 import { OrderedMap } from "../src/OrderedMap";
-import type { Eq, Cmp } from "../src/shared";
+import type { Cmp, Hash } from "../src/shared";
 
 // example
-class Person implements Eq<Person>, Cmp<Person> {
+class Person implements Hash<Person>, Cmp<Person> {
     constructor(public id: number, public name: string) {}
 
     eq(other: Person) {
         return this.id === other.id;
     }
 
+    hash() {
+        return this.id;
+    }
+
     cmp(other: Person) {
         return this.name.localeCompare(other.name);
     }
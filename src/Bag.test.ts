@@ -0,0 +1,292 @@
+import { describe, it, expect } from "bun:test";
+import type { AbstractBag } from "./Bag";
+import { HashBag } from "./HashBag";
+import { OrderedSet } from "./OrderedSet";
+import { TreeBag } from "./TreeBag";
+import { Ordering } from "./shared";
+
+class Item {
+    constructor(
+        public id: number,
+        public name: string,
+    ) {}
+
+    eq(other: Item): boolean {
+        return this.id === other.id;
+    }
+
+    cmp(other: Item): Ordering {
+        return this.id < other.id
+            ? Ordering.Less
+            : this.id > other.id
+              ? Ordering.Greater
+              : Ordering.Equal;
+    }
+}
+
+const implementations: Array<[string, <T>(iterable?: Iterable<T>) => AbstractBag<T>]> = [
+    ["HashBag", (iterable) => new HashBag(iterable)],
+    ["TreeBag", (iterable) => new TreeBag(iterable)],
+];
+
+describe.each(implementations)("%s", (_, make) => {
+    describe("add and getCount", () => {
+        it("should count single copies", () => {
+            const bag = make<string>();
+            bag.add("a").add("a").add("b");
+            expect(bag.getCount("a")).toBe(2);
+            expect(bag.getCount("b")).toBe(1);
+            expect(bag.getCount("c")).toBe(0);
+            expect(bag.size).toBe(3);
+        });
+
+        it("should add nCopies copies", () => {
+            const bag = make<string>();
+            bag.add("a", 3);
+            bag.add("a", 0);
+            expect(bag.getCount("a")).toBe(3);
+            expect(bag.size).toBe(3);
+        });
+
+        it("should reject negative or fractional nCopies", () => {
+            const bag = make<string>();
+            expect(() => bag.add("a", -1)).toThrow(RangeError);
+            expect(() => bag.add("a", 1.5)).toThrow(RangeError);
+        });
+
+        it("should initialize from an iterable", () => {
+            const bag = make(["a", "b", "a"]);
+            expect(bag.getCount("a")).toBe(2);
+            expect(bag.size).toBe(3);
+        });
+
+        it("should honor Eq implementations", () => {
+            const bag = make<Item>();
+            bag.add(new Item(1, "first"));
+            bag.add(new Item(1, "again"), 2);
+            expect(bag.getCount(new Item(1, "other"))).toBe(3);
+            expect(bag.has(new Item(1, "other"))).toBe(true);
+            expect(bag.uniqueSet().size).toBe(1);
+        });
+    });
+
+    describe("delete", () => {
+        it("should remove all copies by default", () => {
+            const bag = make(["a", "a", "b"]);
+            expect(bag.delete("a")).toBe(true);
+            expect(bag.has("a")).toBe(false);
+            expect(bag.size).toBe(1);
+        });
+
+        it("should remove nCopies copies", () => {
+            const bag = make(["a", "a", "a"]);
+            expect(bag.delete("a", 2)).toBe(true);
+            expect(bag.getCount("a")).toBe(1);
+            expect(bag.delete("a", 5)).toBe(true);
+            expect(bag.has("a")).toBe(false);
+            expect(bag.size).toBe(0);
+        });
+
+        it("should return false when nothing changed", () => {
+            const bag = make(["a"]);
+            expect(bag.delete("b")).toBe(false);
+            expect(bag.delete("a", 0)).toBe(false);
+            expect(bag.size).toBe(1);
+        });
+
+        it("should reject bad copy counts even when removing every copy", () => {
+            const bag = make(["a", "a"]);
+            expect(() => bag.delete("a", 3.5)).toThrow(RangeError);
+            expect(() => bag.delete("a", -1)).toThrow(RangeError);
+            expect(() => bag.delete("b", 3.5)).toThrow(RangeError);
+            expect(bag.getCount("a")).toBe(2);
+        });
+    });
+
+    describe("containsAll", () => {
+        it("should respect cardinality", () => {
+            const bag = make(["a", "a", "b"]);
+            expect(bag.containsAll(["a", "b"])).toBe(true);
+            expect(bag.containsAll(["a", "a", "b"])).toBe(true);
+            expect(bag.containsAll(["a", "a", "a"])).toBe(false);
+            expect(bag.containsAll(["c"])).toBe(false);
+        });
+    });
+
+    describe("removeAll and retainAll", () => {
+        it("should remove one copy per occurrence", () => {
+            const bag = make(["a", "a", "a", "b"]);
+            expect(bag.removeAll(["a", "a", "c"])).toBe(2);
+            expect(bag.getCount("a")).toBe(1);
+            expect(bag.getCount("b")).toBe(1);
+        });
+
+        it("should retain no more copies than the given collection holds", () => {
+            const bag = make(["a", "a", "a", "b", "c"]);
+            expect(bag.retainAll(make(["a", "a", "b", "b"]))).toBe(2);
+            expect(bag.getCount("a")).toBe(2);
+            expect(bag.getCount("b")).toBe(1);
+            expect(bag.has("c")).toBe(false);
+        });
+
+        it("should treat a plain set as one copy of each value", () => {
+            const bag = make(["a", "a", "b"]);
+            expect(bag.retainAll(new Set(["a"]))).toBe(2);
+            expect(bag.getCount("a")).toBe(1);
+            expect(bag.size).toBe(1);
+        });
+    });
+
+    describe("uniqueSet, size and clear", () => {
+        it("should list each value once", () => {
+            const bag = make(["a", "b", "a"]);
+            expect(Array.from(bag.uniqueSet()).sort()).toEqual(["a", "b"]);
+        });
+
+        it("should clear everything", () => {
+            const bag = make(["a", "b", "a"]);
+            bag.clear();
+            expect(bag.size).toBe(0);
+            expect(bag.isEmpty()).toBe(true);
+            expect(bag.getCount("a")).toBe(0);
+        });
+    });
+
+    describe("iteration", () => {
+        it("should yield each copy", () => {
+            const bag = make(["a", "b", "a"]);
+            expect(bag.toArray().sort()).toEqual(["a", "a", "b"]);
+            const seen: string[] = [];
+            bag.forEach((value) => seen.push(value));
+            expect(seen.sort()).toEqual(["a", "a", "b"]);
+        });
+
+        it("should count removed copies in removeIf", () => {
+            const bag = make(["a", "b", "a"]);
+            expect(bag.removeIf((value) => value === "a")).toBe(2);
+            expect(bag.toArray()).toEqual(["b"]);
+        });
+    });
+
+    describe("eq", () => {
+        it("should compare counts of every value", () => {
+            expect(make(["a", "b", "a"]).eq(make(["a", "a", "b"]))).toBe(true);
+            expect(make(["a", "b"]).eq(make(["a", "a", "b"]))).toBe(false);
+            expect(make(["a", "b"]).eq(make(["a", "c"]))).toBe(false);
+        });
+
+        it("should not equal collections that are not bags", () => {
+            expect(make(["a"]).eq(new Set(["a"]))).toBe(false);
+            expect(make(["a"]).eq(new OrderedSet(["a"]))).toBe(false);
+        });
+
+        it("should order and hash by copies", () => {
+            expect(make(["b", "a", "a"]).hash()).toBe(make(["a", "b", "a"]).hash());
+            expect(make(["b", "a", "a"]).cmp(make(["a", "b", "a"]))).toBe(Ordering.Equal);
+            expect(make(["a", "b"]).cmp(make(["a", "a", "b"]))).toBe(Ordering.Greater);
+            expect(make(["a", "a"]).cmp(make(["a", "a", "b"]))).toBe(Ordering.Less);
+        });
+
+        it("should dedupe nested bags", () => {
+            const bag = make(["a"]);
+            const bags = new TreeBag([make(["a", "b"]), make(["b", "a"]), bag]);
+            expect(bags.uniqueSet().size).toBe(2);
+            expect(bags.getCount(make(["a", "b"]))).toBe(2);
+            const before = bag.hash();
+            bag.add("a");
+            expect(bag.hash()).not.toBe(before);
+        });
+    });
+
+    describe("bag algebra", () => {
+        it("should sum counts", () => {
+            const result = make(["a", "b"]).sum(["a", "c"]);
+            expect(result.getCount("a")).toBe(2);
+            expect(result.size).toBe(4);
+        });
+
+        it("should take the larger count in union", () => {
+            const result = make(["a", "a", "b"]).union(make(["a", "b", "b", "c"]));
+            expect(result.getCount("a")).toBe(2);
+            expect(result.getCount("b")).toBe(2);
+            expect(result.getCount("c")).toBe(1);
+        });
+
+        it("should take the smaller count in intersection", () => {
+            const result = make(["a", "a", "b", "d"]).intersection(make(["a", "b", "b", "c"]));
+            expect(result.getCount("a")).toBe(1);
+            expect(result.getCount("b")).toBe(1);
+            expect(result.has("c")).toBe(false);
+            expect(result.has("d")).toBe(false);
+        });
+
+        it("should subtract counts in difference", () => {
+            const result = make(["a", "a", "b"]).difference(make(["a", "b", "c"]));
+            expect(result.getCount("a")).toBe(1);
+            expect(result.has("b")).toBe(false);
+            expect(result.size).toBe(1);
+        });
+
+        it("should take the count difference in symmetricDifference", () => {
+            const result = make(["a", "a", "a", "b"]).symmetricDifference(make(["a", "b", "c"]));
+            expect(result.getCount("a")).toBe(2);
+            expect(result.has("b")).toBe(false);
+            expect(result.getCount("c")).toBe(1);
+        });
+
+        it("should respect cardinality in subset checks", () => {
+            const bag = make(["a", "a", "b"]);
+            expect(bag.isSubsetOf(make(["a", "a", "b", "c"]))).toBe(true);
+            expect(bag.isSubsetOf(new Set(["a", "b"]))).toBe(false);
+            expect(bag.isSupersetOf(make(["a", "a"]))).toBe(true);
+            expect(bag.isSupersetOf(make(["b", "b"]))).toBe(false);
+            expect(bag.isDisjointFrom(new Set(["c"]))).toBe(true);
+        });
+
+        it("should leave the operands untouched", () => {
+            const bag = make(["a"]);
+            bag.union(make(["b"]));
+            bag.difference(make(["a"]));
+            expect(bag.toArray()).toEqual(["a"]);
+        });
+
+        it("should return the most common values first", () => {
+            const bag = make(["a", "b", "b", "c", "c", "c"]);
+            expect(bag.mostCommon(2)).toEqual([
+                ["c", 3],
+                ["b", 2],
+            ]);
+            expect(bag.mostCommon()).toHaveLength(3);
+        });
+    });
+});
+
+describe("HashBag", () => {
+    it("should use a custom equality function", () => {
+        const bag = new HashBag<string>(undefined, (a, b) => a.toLowerCase() === b.toLowerCase());
+        bag.add("A").add("a");
+        expect(bag.getCount("a")).toBe(2);
+        expect(Array.from(bag.uniqueSet())).toEqual(["A"]);
+    });
+
+    it("should keep unique values in insertion order", () => {
+        expect(new HashBag(["c", "a", "c", "b"]).toArray()).toEqual(["c", "c", "a", "b"]);
+    });
+});
+
+describe("TreeBag", () => {
+    it("should iterate in sorted order", () => {
+        expect(new TreeBag([3, 1, 3, 2]).toArray()).toEqual([1, 2, 3, 3]);
+    });
+
+    it("should use a custom comparator function", () => {
+        const bag = new TreeBag([1, 3, 2], undefined, (a, b) => b - a);
+        expect(bag.toArray()).toEqual([3, 2, 1]);
+        expect(Array.from(bag.uniqueSet())).toEqual([3, 2, 1]);
+    });
+
+    it("should sort Cmp implementations", () => {
+        const bag = new TreeBag([new Item(2, "b"), new Item(1, "a"), new Item(2, "c")]);
+        expect(bag.toArray().map((item) => item.name)).toEqual(["a", "b", "b"]);
+    });
+});
@@ -1,6 +1,21 @@
-import type { Collection, Eq, ReadonlySetLike } from "./shared";
+import { FORMAT_VERSION, type SerializedBag } from "./json";
+import {
+    Collection,
+    combineHash,
+    unorderedHash,
+    type HashCode,
+    type ReadonlySetLike,
+} from "./shared";
+
+export interface Bag<T> extends Collection<T> {
+    /**
+     * Returns true if the other collection is a bag holding the same values with the same
+     * counts. Collections that are not bags are never equal to one.
+     * @param other the collection to compare with
+     * @returns true if the two are equal
+     */
+    eq(other: ReadonlySetLike<unknown>): boolean;
 
-export interface Bag<T> extends Collection<T>, Eq<T> {
     /**
      * Adds one copy of the specified value to the Bag.
      * @param value the value to add
@@ -68,4 +83,310 @@ export interface Bag<T> extends Collection<T>, Eq<T> {
      * @returns the Set of unique Bag values
      */
     uniqueSet(): Set<T>;
+
+    /**
+     * Returns a new Bag holding the copies of both this bag and the given collection.
+     * @param coll the collection to add
+     * @returns the sum of the two
+     */
+    sum(coll: Iterable<T>): Bag<T>;
+
+    /**
+     * Returns a new Bag holding each value with the larger of its two counts.
+     * @param other the set-like to unite with
+     * @returns the union of the two
+     */
+    union<U>(other: ReadonlySetLike<U>): Bag<T | U>;
+
+    /**
+     * Returns a new Bag holding each value with the smaller of its two counts.
+     * @param other the set-like to intersect with
+     * @returns the intersection of the two
+     */
+    intersection<U>(other: ReadonlySetLike<U>): Bag<T & U>;
+
+    /**
+     * Returns a new Bag with the copies in the given set-like taken away.
+     * @param other the set-like to subtract
+     * @returns the difference of the two
+     */
+    difference<U>(other: ReadonlySetLike<U>): Bag<T>;
+
+    /**
+     * Returns a new Bag holding each value as many times as its two counts differ.
+     * @param other the set-like to compare with
+     * @returns the symmetric difference of the two
+     */
+    symmetricDifference<U>(other: ReadonlySetLike<U>): Bag<T | U>;
+
+    /**
+     * Returns true if the given set-like holds every value at least as often as this bag does.
+     * @param other the set-like to check against
+     * @returns true if this Bag is contained in the set-like
+     */
+    isSubsetOf(other: ReadonlySetLike<unknown>): boolean;
+
+    /**
+     * Returns true if this bag holds every value at least as often as the given set-like does.
+     * @param other the set-like to check against
+     * @returns true if this Bag contains the set-like
+     */
+    isSupersetOf(other: ReadonlySetLike<unknown>): boolean;
+
+    /**
+     * Returns the n values with the highest counts, most common first.
+     * @param n the number of values to return, all of them if omitted
+     * @returns pairs of value and count
+     */
+    mostCommon(n?: number): Array<[T, number]>;
+}
+
+/**
+ * Base for Bag implementations. Subclasses supply the map that holds the count of each unique
+ * value; that map is responsible for honoring the bag's equality.
+ */
+export abstract class AbstractBag<T> extends Collection<T> implements Bag<T> {
+    protected abstract readonly counts: Map<T, number>;
+    protected abstract readonly typeTag: SerializedBag["@type"];
+    private total = 0;
+
+    /**
+     * Returns a new, empty bag of the same kind, sharing this bag's equality and ordering.
+     */
+    protected abstract create(): AbstractBag<T>;
+
+    abstract uniqueSet(): Set<T>;
+
+    /**
+     * Hashes a value consistently with the bag's equality.
+     */
+    protected abstract hashOf(value: T): HashCode;
+
+    add(value: T, nCopies = 1): this {
+        assertCopies(nCopies);
+        if (nCopies > 0) {
+            this.counts.set(value, this.getCount(value) + nCopies);
+            this.total += nCopies;
+            this.modifications.increment();
+            this.invalidate();
+        }
+        return this;
+    }
+
+    getCount(value: T): number {
+        return this.counts.get(value) ?? 0;
+    }
+
+    has(value: T): boolean {
+        return this.counts.has(value);
+    }
+
+    delete(value: unknown, nCopies?: number): boolean {
+        if (nCopies !== undefined) {
+            assertCopies(nCopies);
+        }
+        const count = this.getCount(value as T);
+        if (count === 0) {
+            return false;
+        }
+        if (nCopies === undefined || nCopies >= count) {
+            this.counts.delete(value as T);
+            this.total -= count;
+            this.modifications.increment();
+            this.invalidate();
+            return true;
+        }
+        if (nCopies === 0) {
+            return false;
+        }
+        this.counts.set(value as T, count - nCopies);
+        this.total -= nCopies;
+        this.modifications.increment();
+        this.invalidate();
+        return true;
+    }
+
+    containsAll(coll: Iterable<unknown>): boolean {
+        for (const [value, count] of this.tally(coll).counts) {
+            if (this.getCount(value as T) < count) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    removeAll(coll: Iterable<unknown>): number {
+        let result = 0;
+        for (const value of coll) {
+            if (this.delete(value, 1)) {
+                result++;
+            }
+        }
+        return result;
+    }
+
+    retainAll(coll: ReadonlySetLike<unknown>): number {
+        const allowed = this.tally(coll.keys());
+        let result = 0;
+        for (const [value, count] of Array.from(this.counts)) {
+            const excess = count - allowed.getCount(value);
+            if (excess > 0) {
+                this.delete(value, excess);
+                result += excess;
+            }
+        }
+        return result;
+    }
+
+    removeIf(predicate: (value: T) => boolean): number {
+        let result = 0;
+        for (const [value, count] of Array.from(this.counts)) {
+            if (predicate(value)) {
+                this.delete(value);
+                result += count;
+            }
+        }
+        return result;
+    }
+
+    clear(): void {
+        this.modifications.increment();
+        this.invalidate();
+        this.counts.clear();
+        this.total = 0;
+    }
+
+    get size(): number {
+        return this.total;
+    }
+
+    eq(other: ReadonlySetLike<unknown>): boolean {
+        if (!(other instanceof AbstractBag)) {
+            return false;
+        }
+        if (this.size !== other.size || this.counts.size !== other.uniqueSet().size) {
+            return false;
+        }
+        for (const [value, count] of this.counts) {
+            if (other.getCount(value) !== count) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    protected computeHash(): number {
+        return unorderedHash(this.counts, ([value, count]) =>
+            combineHash(combineHash(1, this.hashOf(value)), count),
+        );
+    }
+
+    sum(coll: Iterable<T>): AbstractBag<T> {
+        return this.copy().addAll(coll);
+    }
+
+    union<U>(other: ReadonlySetLike<U>): AbstractBag<T | U> {
+        const result: AbstractBag<T | U> = this.copy();
+        for (const [value, count] of this.tally(other.keys()).counts) {
+            const existing = result.getCount(value);
+            if (count > existing) {
+                result.add(value, count - existing);
+            }
+        }
+        return result;
+    }
+
+    intersection<U>(other: ReadonlySetLike<U>): AbstractBag<T & U> {
+        const counts = this.tally(other.keys());
+        const result = this.create();
+        for (const [value, count] of this.counts) {
+            const common = Math.min(count, counts.getCount(value));
+            if (common > 0) {
+                result.add(value, common);
+            }
+        }
+        return result as AbstractBag<T & U>;
+    }
+
+    difference<U>(other: ReadonlySetLike<U>): AbstractBag<T> {
+        const result = this.copy();
+        result.removeAll(other.keys());
+        return result;
+    }
+
+    symmetricDifference<U>(other: ReadonlySetLike<U>): AbstractBag<T | U> {
+        const result: AbstractBag<T | U> = this.difference(other);
+        for (const [value, count] of this.tally(other.keys()).counts) {
+            const excess = count - this.getCount(value);
+            if (excess > 0) {
+                result.add(value, excess);
+            }
+        }
+        return result;
+    }
+
+    isSubsetOf(other: ReadonlySetLike<unknown>): boolean {
+        return this.tally(other.keys()).containsAll(this);
+    }
+
+    isSupersetOf(other: ReadonlySetLike<unknown>): boolean {
+        return this.containsAll(other.keys());
+    }
+
+    mostCommon(n?: number): Array<[T, number]> {
+        const result = Array.from(this.counts);
+        result.sort(([, a], [, b]) => b - a);
+        return n === undefined ? result : result.slice(0, Math.max(0, n));
+    }
+
+    values(): IterableIterator<T> {
+        return this.modifications.iterate(
+            () => Array.from(this.copies()),
+            () => this.copies(),
+        );
+    }
+
+    /**
+     * Returns the JSON form of this bag: each unique value with its count, tagged with the format
+     * version. Values are left to `JSON.stringify`.
+     */
+    toJSON(): SerializedBag {
+        return {
+            "@type": this.typeTag,
+            "version": FORMAT_VERSION,
+            "counts": Array.from(this.counts),
+        };
+    }
+
+    /**
+     * Yields each value once per copy, following changes to the counts.
+     */
+    private *copies(): IterableIterator<T> {
+        for (const [value, count] of this.counts) {
+            for (let i = 0; i < count; i++) {
+                yield value;
+            }
+        }
+    }
+
+    private copy(): AbstractBag<T> {
+        const result = this.create();
+        for (const [value, count] of this.counts) {
+            result.add(value, count);
+        }
+        return result;
+    }
+
+    /**
+     * Counts the given values under this bag's equality.
+     */
+    private tally(values: Iterable<unknown>): AbstractBag<T> {
+        return this.create().addAll(values as Iterable<T>);
+    }
+}
+
+function assertCopies(nCopies: number): void {
+    if (!Number.isInteger(nCopies) || nCopies < 0) {
+        throw new RangeError(`nCopies must be a non-negative integer, got ${nCopies}`);
+    }
 }
@@ -0,0 +1,117 @@
+import { describe, it, expect } from "bun:test";
+import { BiMap } from "./BiMap";
+import { SortedBiMap } from "./SortedBiMap";
+import { caseInsensitive, deriveEq, localeCompare, reversed } from "./shared";
+
+class ExternalId {
+    constructor(
+        readonly system: string,
+        readonly id: string,
+    ) {}
+}
+deriveEq(ExternalId, ["system", "id"]);
+
+describe("BiMap", () => {
+    it("should look up both ways", () => {
+        const map = new BiMap<number, string>([
+            [1, "one"],
+            [2, "two"],
+        ]);
+        expect(map.get(1)).toBe("one");
+        expect(map.getKey("two")).toBe(2);
+        expect(map.hasValue("three")).toBe(false);
+        expect(Array.from(map)).toEqual([
+            [1, "one"],
+            [2, "two"],
+        ]);
+    });
+
+    it("should find Eq values by equality", () => {
+        const map = new BiMap<number, ExternalId>();
+        map.set(7, new ExternalId("crm", "a-1"));
+        expect(map.getKey(new ExternalId("crm", "a-1"))).toBe(7);
+        expect(() => map.set(8, new ExternalId("crm", "a-1"))).toThrow(Error);
+        expect(map.size).toBe(1);
+    });
+
+    it("should replace a key's value and free the old one", () => {
+        const map = new BiMap<number, string>([[1, "one"]]);
+        map.set(1, "uno");
+        expect(map.get(1)).toBe("uno");
+        expect(map.hasValue("one")).toBe(false);
+        map.set(2, "one");
+        expect(map.size).toBe(2);
+    });
+
+    it("should let a key be set to its own value again", () => {
+        const map = new BiMap<string, string>([["a", "x"]], caseInsensitive);
+        map.set("A", "x");
+        expect(Array.from(map)).toEqual([["A", "x"]]);
+        expect(map.getKey("x")).toBe("A");
+    });
+
+    it("should evict the conflicting pair on forcePut", () => {
+        const map = new BiMap<number, string>([
+            [1, "one"],
+            [2, "two"],
+        ]);
+        map.forcePut(2, "one");
+        expect(Array.from(map)).toEqual([[2, "one"]]);
+        expect(map.has(1)).toBe(false);
+    });
+
+    it("should keep the inverse live in both directions", () => {
+        const map = new BiMap<number, string>([[1, "one"]]);
+        const inverse = map.inverse();
+        expect(inverse.get("one")).toBe(1);
+        map.set(2, "two");
+        expect(inverse.get("two")).toBe(2);
+        inverse.set("three", 3);
+        expect(map.get(3)).toBe("three");
+        inverse.delete("one");
+        expect(map.has(1)).toBe(false);
+        expect(inverse.inverse()).toBe(map);
+        expect(() => inverse.set("four", 2)).toThrow(Error);
+    });
+
+    it("should use each side's own equality", () => {
+        const map = new BiMap<string, string>(undefined, undefined, caseInsensitive);
+        map.set("a", "X");
+        expect(map.hasValue("x")).toBe(true);
+        expect(map.has("A")).toBe(false);
+        expect(map.inverse().get("x")).toBe("a");
+    });
+});
+
+describe("SortedBiMap", () => {
+    it("should iterate by key and its inverse by value", () => {
+        const map = new SortedBiMap<number, string>(
+            [
+                [2, "a"],
+                [3, "c"],
+                [1, "b"],
+            ],
+            undefined,
+            undefined,
+            undefined,
+            reversed(localeCompare()),
+        );
+        expect(Array.from(map.keys())).toEqual([1, 2, 3]);
+        const inverse = map.inverse();
+        expect(inverse).toBeInstanceOf(SortedBiMap);
+        expect(Array.from(inverse.keys())).toEqual(["c", "b", "a"]);
+        expect(inverse.firstKey()).toBe("c");
+        map.forcePut(0, "c");
+        expect(Array.from(inverse)).toEqual([
+            ["c", 0],
+            ["b", 1],
+            ["a", 2],
+        ]);
+    });
+
+    it("should throw on value conflicts", () => {
+        const map = new SortedBiMap<number, string>([[1, "a"]]);
+        expect(() => map.set(2, "a")).toThrow(Error);
+        expect(map.lastKey()).toBe(1);
+    });
+});
@@ -0,0 +1,157 @@
+import { EqualityMap, HashIndex, resolveHashFn } from "./HashIndex";
+import { defaultEqualityFn, type HashCode } from "./shared";
+
+/**
+ * A Map whose values are unique as well as its keys, so it can be looked up both ways. Keys and
+ * values each have their own equality, and entries are kept in insertion order.
+ */
+export class BiMap<K, V> extends Map<K, V> {
+    protected forward: Map<K, V>;
+    protected backward: Map<V, K>;
+    private keyEqualityFn: (a: K, b: K) => boolean;
+    private valueEqualityFn: (a: V, b: V) => boolean;
+    private _inverse?: BiMap<V, K>;
+
+    /**
+     * Keys and values are looked up by hash, then by their equality function, like the keys of an
+     * OrderedMap.
+     */
+    constructor(
+        entries?: Iterable<[K, V]>,
+        keyEqualityFn?: (a: K, b: K) => boolean,
+        valueEqualityFn?: (a: V, b: V) => boolean,
+        keyHashFn?: (key: K) => HashCode,
+        valueHashFn?: (value: V) => HashCode,
+    ) {
+        super();
+        this.keyEqualityFn = keyEqualityFn ?? defaultEqualityFn;
+        this.valueEqualityFn = valueEqualityFn ?? defaultEqualityFn;
+        this.forward = new EqualityMap(
+            new HashIndex(resolveHashFn(keyEqualityFn, keyHashFn), this.keyEqualityFn),
+        );
+        this.backward = new EqualityMap(
+            new HashIndex(resolveHashFn(valueEqualityFn, valueHashFn), this.valueEqualityFn),
+        );
+        if (entries) {
+            for (const [key, value] of entries) {
+                this.set(key, value);
+            }
+        }
+    }
+
+    get(key: K): V | undefined {
+        return this.forward.get(key);
+    }
+
+    has(key: K): boolean {
+        return this.forward.has(key);
+    }
+
+    /**
+     * Returns the key bound to the given value, or undefined if there is none.
+     */
+    getKey(value: V): K | undefined {
+        return this.backward.get(value);
+    }
+
+    hasValue(value: V): boolean {
+        return this.backward.has(value);
+    }
+
+    /**
+     * Binds the key to the value, replacing the key's previous value.
+     * @throws Error if the value is already bound to a different key
+     */
+    set(key: K, value: V): this {
+        if (this.backward.has(value) && !this.keyEqualityFn(this.backward.get(value)!, key)) {
+            throw new Error("The value is already bound to a different key");
+        }
+        this.bind(key, value);
+        return this;
+    }
+
+    /**
+     * Binds the key to the value like `set`, but first removes any other key bound to the value.
+     */
+    forcePut(key: K, value: V): this {
+        if (this.backward.has(value)) {
+            this.forward.delete(this.backward.get(value)!);
+            this.backward.delete(value);
+        }
+        this.bind(key, value);
+        return this;
+    }
+
+    delete(key: K): boolean {
+        if (!this.forward.has(key)) {
+            return false;
+        }
+        this.backward.delete(this.forward.get(key)!);
+        return this.forward.delete(key);
+    }
+
+    clear(): void {
+        this.forward.clear();
+        this.backward.clear();
+    }
+
+    get size(): number {
+        return this.forward.size;
+    }
+
+    /**
+     * Returns the inverse of this map, from values to keys. The inverse is live: changes to either
+     * map show in the other.
+     */
+    inverse(): BiMap<V, K> {
+        if (this._inverse === undefined) {
+            const inverse = this.createInverse();
+            inverse.forward = this.backward;
+            inverse.backward = this.forward;
+            inverse.keyEqualityFn = this.valueEqualityFn;
+            inverse.valueEqualityFn = this.keyEqualityFn;
+            inverse._inverse = this;
+            this._inverse = inverse;
+        }
+        return this._inverse;
+    }
+
+    keys(): IterableIterator<K> {
+        return this.forward.keys();
+    }
+
+    values(): IterableIterator<V> {
+        return this.forward.values();
+    }
+
+    entries(): IterableIterator<[K, V]> {
+        return this.forward.entries();
+    }
+
+    forEach(fn: (value: V, key: K, map: this) => void): void {
+        for (const [k, v] of this.entries()) {
+            fn(v, k, this);
+        }
+    }
+
+    [Symbol.iterator](): IterableIterator<[K, V]> {
+        return this.entries();
+    }
+
+    /**
+     * Returns a new, empty map of the same kind, whose storage `inverse` then replaces.
+     */
+    protected createInverse(): BiMap<V, K> {
+        return new BiMap();
+    }
+
+    /**
+     * Replaces the pair holding the key, if any, with the given pair. The value must not be bound
+     * to another key.
+     */
+    private bind(key: K, value: V): void {
+        this.delete(key);
+        this.forward.set(key, value);
+        this.backward.set(value, key);
+    }
+}
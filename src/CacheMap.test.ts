@@ -0,0 +1,182 @@
+import { describe, it, expect } from "bun:test";
+import type { EvictionReason } from "./CacheMap";
+import { LfuMap } from "./LfuMap";
+import { LruMap } from "./LruMap";
+import { caseInsensitive } from "./shared";
+
+type Eviction = [string, number, EvictionReason];
+
+describe("LruMap", () => {
+    it("should evict the least recently used entry", () => {
+        const evicted: Array<Eviction> = [];
+        const cache = new LruMap<string, number>(undefined, undefined, undefined, {
+            maxSize: 2,
+            onEvict: (key, value, reason) => evicted.push([key, value, reason]),
+        });
+        cache.set("a", 1).set("b", 2);
+        cache.get("a");
+        cache.set("c", 3);
+        expect(evicted).toEqual([["b", 2, "capacity"]]);
+        expect(Array.from(cache.keys())).toEqual(["a", "c"]);
+    });
+
+    it("should not promote on peek or has", () => {
+        const cache = new LruMap<string, number>(
+            [
+                ["a", 1],
+                ["b", 2],
+            ],
+            undefined,
+            undefined,
+            { maxSize: 2 },
+        );
+        expect(cache.peek("a")).toBe(1);
+        expect(cache.has("a")).toBe(true);
+        cache.set("c", 3);
+        expect(cache.has("a")).toBe(false);
+        expect(cache.size).toBe(2);
+    });
+
+    it("should promote a key when its value is replaced", () => {
+        const cache = new LruMap<string, number>(undefined, undefined, undefined, { maxSize: 2 });
+        cache.set("a", 1).set("b", 2).set("a", 10).set("c", 3);
+        expect(Array.from(cache)).toEqual([
+            ["a", 10],
+            ["c", 3],
+        ]);
+    });
+
+    it("should find keys with a custom equality", () => {
+        const cache = new LruMap<string, number>(undefined, caseInsensitive, undefined, {
+            maxSize: 2,
+        });
+        cache.set("Key", 1);
+        cache.set("KEY", 2);
+        expect(cache.size).toBe(1);
+        expect(cache.get("key")).toBe(2);
+    });
+
+    it("should evict by weight", () => {
+        const evicted: Array<Eviction> = [];
+        const cache = new LruMap<string, number>(undefined, undefined, undefined, {
+            maxSize: 10,
+            weigh: (_, value) => value,
+            onEvict: (key, value, reason) => evicted.push([key, value, reason]),
+        });
+        cache.set("a", 4).set("b", 4);
+        expect(cache.totalWeight).toBe(8);
+        cache.set("c", 5);
+        expect(Array.from(cache.keys())).toEqual(["b", "c"]);
+        cache.set("d", 11);
+        expect(cache.has("d")).toBe(false);
+        expect(evicted).toEqual([
+            ["a", 4, "capacity"],
+            ["d", 11, "capacity"],
+        ]);
+        cache.set("b", 7);
+        expect(Array.from(cache.keys())).toEqual(["b"]);
+    });
+
+    it("should reject bad options", () => {
+        expect(() => new LruMap(undefined, undefined, undefined, { maxSize: -1 })).toThrow(
+            RangeError,
+        );
+        const cache = new LruMap<string, number>(undefined, undefined, undefined, {
+            weigh: () => NaN,
+        });
+        expect(() => cache.set("a", 1)).toThrow(RangeError);
+    });
+});
+
+describe("LfuMap", () => {
+    it("should evict the least frequently used entry", () => {
+        const evicted: Array<Eviction> = [];
+        const cache = new LfuMap<string, number>(undefined, undefined, undefined, {
+            maxSize: 3,
+            onEvict: (key, value, reason) => evicted.push([key, value, reason]),
+        });
+        cache.set("a", 1).set("b", 2).set("c", 3);
+        cache.get("a");
+        cache.get("a");
+        cache.get("b");
+        cache.get("c");
+        cache.set("d", 4);
+        expect(evicted).toEqual([["b", 2, "capacity"]]);
+        cache.set("e", 5);
+        expect(evicted[1]).toEqual(["d", 4, "capacity"]);
+    });
+
+    it("should recover after the least used keys are deleted", () => {
+        const cache = new LfuMap<string, number>(undefined, undefined, undefined, { maxSize: 2 });
+        cache.set("a", 1).set("b", 2);
+        cache.get("b");
+        cache.get("b");
+        cache.get("a");
+        cache.delete("a");
+        cache.set("c", 3);
+        cache.get("c");
+        cache.set("d", 4);
+        expect(Array.from(cache.keys())).toEqual(["b", "d"]);
+    });
+
+    it("should not count peek as use", () => {
+        const cache = new LfuMap<string, number>(undefined, undefined, undefined, { maxSize: 2 });
+        cache.set("a", 1).set("b", 2);
+        cache.peek("a");
+        cache.get("b");
+        cache.set("c", 3);
+        expect(cache.has("a")).toBe(false);
+    });
+});
+
+describe("ttl", () => {
+    it("should expire entries by the injected clock", () => {
+        let now = 0;
+        const evicted: Array<Eviction> = [];
+        const cache = new LruMap<string, number>(undefined, undefined, undefined, {
+            ttl: 100,
+            clock: () => now,
+            onEvict: (key, value, reason) => evicted.push([key, value, reason]),
+        });
+        cache.set("a", 1);
+        now = 50;
+        cache.set("b", 2);
+        now = 99;
+        expect(cache.get("a")).toBe(1);
+        now = 100;
+        expect(cache.get("a")).toBeUndefined();
+        expect(cache.size).toBe(1);
+        expect(evicted).toEqual([["a", 1, "expired"]]);
+        now = 150;
+        expect(Array.from(cache)).toEqual([]);
+    });
+
+    it("should restart the timer when a value is set again", () => {
+        let now = 0;
+        const cache = new LfuMap<string, number>(undefined, undefined, undefined, {
+            ttl: 10,
+            clock: () => now,
+        });
+        cache.set("a", 1).set("b", 2);
+        now = 8;
+        cache.set("a", 3);
+        now = 12;
+        expect(Array.from(cache.keys())).toEqual(["a"]);
+        now = 18;
+        expect(cache.has("a")).toBe(false);
+    });
+
+    it("should call onEvict from purge", () => {
+        let now = 0;
+        const evicted: Array<string> = [];
+        const cache = new LruMap<string, number>([["a", 1]], undefined, undefined, {
+            ttl: 5,
+            clock: () => now,
+            onEvict: (key) => evicted.push(key),
+        });
+        now = 5;
+        expect(evicted).toEqual([]);
+        cache.purge();
+        expect(evicted).toEqual(["a"]);
+    });
+});
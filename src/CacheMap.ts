@@ -0,0 +1,257 @@
+import { HashIndex, resolveHashFn } from "./HashIndex";
+import { defaultEqualityFn, type HashCode } from "./shared";
+
+/**
+ * Why a cache dropped an entry on its own: to stay within `maxSize`, or because it outlived
+ * `ttl`.
+ */
+export type EvictionReason = "capacity" | "expired";
+
+export interface CacheOptions<K, V> {
+    /** The most the entries may weigh together. Unbounded if omitted. */
+    maxSize?: number;
+    /** Weighs an entry against `maxSize`. Every entry weighs 1 if omitted. */
+    weigh?: (key: K, value: V) => number;
+    /** How many milliseconds after being set an entry expires. Never if omitted. */
+    ttl?: number;
+    /**
+     * Called for every entry the cache drops on its own, but not for ones removed by `delete`,
+     * `clear` or replaced by `set`.
+     */
+    onEvict?: (key: K, value: V, reason: EvictionReason) => void;
+    /** Returns the current time in milliseconds, `Date.now` if omitted. */
+    clock?: () => number;
+}
+
+/**
+ * Base for bounded caches. Keys are found by hash and equality like the keys of an OrderedMap,
+ * and iterated in the order they were added. Subclasses pick the entry to evict when the cache is
+ * over its `maxSize`.
+ */
+export abstract class CacheMap<K, V> extends Map<K, V> {
+    private index: HashIndex<K>;
+    private options: CacheOptions<K, V>;
+    private clock: () => number;
+    private weights = new Map<K, number>();
+    private weight = 0;
+    /** Expiry times, oldest first: every entry lives for the same `ttl` from its last `set`. */
+    private expiries = new Map<K, number>();
+
+    constructor(
+        equalityFn?: (a: K, b: K) => boolean,
+        hashFn?: (key: K) => HashCode,
+        options: CacheOptions<K, V> = {},
+    ) {
+        super();
+        assertNonNegative("maxSize", options.maxSize);
+        assertNonNegative("ttl", options.ttl);
+        this.index = new HashIndex(
+            resolveHashFn(equalityFn, hashFn),
+            equalityFn ?? defaultEqualityFn,
+        );
+        this.options = options;
+        this.clock = options.clock ?? Date.now;
+    }
+
+    /**
+     * Records that a new key was added.
+     */
+    protected abstract track(key: K): void;
+
+    /**
+     * Records that a key was removed.
+     */
+    protected abstract untrack(key: K): void;
+
+    /**
+     * Records that a key was read or replaced.
+     */
+    protected abstract promote(key: K): void;
+
+    /**
+     * Returns the key to evict next.
+     */
+    protected abstract victim(): K | undefined;
+
+    /**
+     * Returns the value for the key and counts it as used.
+     */
+    get(key: K): V | undefined {
+        const existing = this.find(key);
+        if (existing === undefined) {
+            return undefined;
+        }
+        this.promote(existing);
+        return super.get(existing);
+    }
+
+    /**
+     * Returns the value for the key without counting it as used.
+     */
+    peek(key: K): V | undefined {
+        const existing = this.find(key);
+        return existing !== undefined ? super.get(existing) : undefined;
+    }
+
+    has(key: K): boolean {
+        return this.find(key) !== undefined;
+    }
+
+    /**
+     * Sets the value for the key, then evicts entries until the cache is within `maxSize`. An
+     * entry that alone weighs more than `maxSize` is evicted right away.
+     */
+    set(key: K, value: V): this {
+        this.purge();
+        const weight = this.weigh(key, value);
+        const maxSize = this.options.maxSize ?? Infinity;
+        let existing = this.index.find(key);
+        if (weight > maxSize) {
+            if (existing !== undefined) {
+                this.remove(existing);
+            }
+            this.options.onEvict?.(key, value, "capacity");
+            return this;
+        }
+        if (existing !== undefined) {
+            this.weight -= this.weights.get(existing)!;
+            this.expiries.delete(existing);
+            this.promote(existing);
+        } else {
+            this.evictFor(weight);
+            existing = key;
+            this.index.add(key);
+            this.track(key);
+        }
+        super.set(existing, value);
+        this.weights.set(existing, weight);
+        this.weight += weight;
+        if (this.options.ttl !== undefined) {
+            this.expiries.set(existing, this.clock() + this.options.ttl);
+        }
+        this.evictFor(0);
+        return this;
+    }
+
+    delete(key: K): boolean {
+        this.purge();
+        const existing = this.index.find(key);
+        if (existing === undefined) {
+            return false;
+        }
+        this.remove(existing);
+        return true;
+    }
+
+    clear(): void {
+        for (const key of Array.from(super.keys())) {
+            this.untrack(key);
+        }
+        this.index.clear();
+        this.weights.clear();
+        this.expiries.clear();
+        this.weight = 0;
+        super.clear();
+    }
+
+    get size(): number {
+        this.purge();
+        return super.size;
+    }
+
+    /**
+     * The total weight of the entries, which is their number unless `weigh` is given.
+     */
+    get totalWeight(): number {
+        this.purge();
+        return this.weight;
+    }
+
+    /**
+     * Evicts the entries that have expired. Reads and writes do this as they go, so calling it is
+     * only needed to have `onEvict` called sooner.
+     */
+    purge(): void {
+        const now = this.clock();
+        for (const [key, expiry] of this.expiries) {
+            if (expiry > now) {
+                break;
+            }
+            this.evict(key, "expired");
+        }
+    }
+
+    keys(): IterableIterator<K> {
+        this.purge();
+        return Array.from(super.keys()).values();
+    }
+
+    values(): IterableIterator<V> {
+        this.purge();
+        return Array.from(super.values()).values();
+    }
+
+    entries(): IterableIterator<[K, V]> {
+        this.purge();
+        return Array.from(super.entries()).values();
+    }
+
+    forEach(fn: (value: V, key: K, map: this) => void): void {
+        for (const [k, v] of this.entries()) {
+            fn(v, k, this);
+        }
+    }
+
+    [Symbol.iterator](): IterableIterator<[K, V]> {
+        return this.entries();
+    }
+
+    /**
+     * Returns the stored key equal to the given one, once expired entries are gone.
+     */
+    private find(key: K): K | undefined {
+        this.purge();
+        return this.index.find(key);
+    }
+
+    private weigh(key: K, value: V): number {
+        const weight = this.options.weigh?.(key, value) ?? 1;
+        assertNonNegative("weigh", weight);
+        return weight;
+    }
+
+    /**
+     * Evicts entries until one of the given weight fits within `maxSize`.
+     */
+    private evictFor(weight: number): void {
+        const maxSize = this.options.maxSize ?? Infinity;
+        while (this.weight + weight > maxSize) {
+            const victim = this.victim();
+            if (victim === undefined) {
+                return;
+            }
+            this.evict(victim, "capacity");
+        }
+    }
+
+    private evict(key: K, reason: EvictionReason): void {
+        const value = super.get(key) as V;
+        this.remove(key);
+        this.options.onEvict?.(key, value, reason);
+    }
+
+    private remove(key: K): void {
+        this.index.delete(key);
+        this.untrack(key);
+        this.weight -= this.weights.get(key)!;
+        this.weights.delete(key);
+        this.expiries.delete(key);
+        super.delete(key);
+    }
+}
+
+function assertNonNegative(name: string, value: number | undefined): void {
+    if (value !== undefined && !(value >= 0)) {
+        throw new RangeError(`${name} must be a non-negative number, got ${value}`);
+    }
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect } from "bun:test";
+import { ConcurrentModificationError } from "./iteration";
+import { OrderedMap } from "./OrderedMap";
+import { OrderedSet } from "./OrderedSet";
+
+describe("reverse iteration", () => {
+    it("should walk sets and maps backwards", () => {
+        const set = new OrderedSet([3, 1, 2]);
+        expect(Array.from(set.reverseValues())).toEqual([3, 2, 1]);
+        const map = new OrderedMap([
+            ["b", 2],
+            ["a", 1],
+        ]);
+        expect(Array.from(map.reverseEntries())).toEqual([
+            ["b", 2],
+            ["a", 1],
+        ]);
+        expect(Array.from(new OrderedSet<number>().reverseValues())).toEqual([]);
+    });
+
+    it("should follow the iteration option", () => {
+        const snapshot = new OrderedSet([1, 2, 3]);
+        const seen: number[] = [];
+        for (const value of snapshot.reverseValues()) {
+            seen.push(value);
+            snapshot.delete(1);
+        }
+        expect(seen).toEqual([3, 2, 1]);
+
+        const live = new OrderedSet([1, 2, 3], undefined, undefined, undefined, {
+            iteration: "live",
+        });
+        seen.length = 0;
+        for (const value of live.reverseValues()) {
+            seen.push(value);
+            live.delete(1);
+            live.add(0);
+        }
+        expect(seen).toEqual([3, 2, 0]);
+
+        const failFast = new OrderedMap([["a", 1]], undefined, undefined, undefined, {
+            iteration: "fail-fast",
+        });
+        expect(() => {
+            for (const _ of failFast.reverseEntries()) {
+                failFast.set("b", 2);
+            }
+        }).toThrow(ConcurrentModificationError);
+    });
+});
+
+describe("Cursor", () => {
+    it("should move both ways from either end", () => {
+        const cursor = new OrderedSet([10, 20, 30]).cursor();
+        expect(cursor.current).toBeUndefined();
+        expect(cursor.prev()).toBeUndefined();
+        expect(cursor.next()).toBe(10);
+        expect(cursor.next()).toBe(20);
+        expect(cursor.prev()).toBe(10);
+        expect(cursor.prev()).toBeUndefined();
+        expect(cursor.next()).toBe(10);
+        expect(cursor.seek(30)).toBe(30);
+        expect(cursor.next()).toBeUndefined();
+        expect(cursor.next()).toBeUndefined();
+        expect(cursor.prev()).toBe(30);
+    });
+
+    it("should seek to the ceiling key", () => {
+        const map = new OrderedMap([
+            [10, "a"],
+            [20, "b"],
+            [30, "c"],
+        ]);
+        const cursor = map.cursor();
+        expect(cursor.seek(15)).toEqual([20, "b"]);
+        expect(cursor.current).toEqual([20, "b"]);
+        map.set(20, "B");
+        expect(cursor.current).toEqual([20, "B"]);
+        expect(cursor.seek(31)).toBeUndefined();
+        expect(cursor.prev()).toEqual([30, "c"]);
+        expect(cursor.seek(0)).toEqual([10, "a"]);
+    });
+
+    it("should resume after a key", () => {
+        const set = new OrderedSet(Array.from({ length: 10 }, (_, i) => i * 10));
+        const cursor = set.cursor();
+        cursor.seek(35);
+        expect(Array.from(cursor)).toEqual([50, 60, 70, 80, 90]);
+        expect(cursor.current).toBeUndefined();
+        expect(cursor.prev()).toBe(90);
+    });
+
+    it("should stay in place across other changes", () => {
+        const set = new OrderedSet([10, 20, 30]);
+        const cursor = set.cursor();
+        cursor.seek(20);
+        set.add(25);
+        set.add(5);
+        expect(cursor.current).toBe(20);
+        expect(cursor.next()).toBe(25);
+        expect(cursor.prev()).toBe(20);
+        expect(cursor.prev()).toBe(10);
+        set.delete(10);
+        expect(cursor.current).toBeUndefined();
+        expect(cursor.next()).toBe(20);
+    });
+
+    it("should remove through the cursor and keep its place", () => {
+        const set = new OrderedSet([1, 2, 3, 4, 5, 6]);
+        const cursor = set.cursor();
+        for (let value = cursor.next(); value !== undefined; value = cursor.next()) {
+            if (value % 2 === 0) {
+                cursor.remove();
+            }
+        }
+        expect(Array.from(set)).toEqual([1, 3, 5]);
+        cursor.seek(3);
+        cursor.remove();
+        expect(cursor.current).toBeUndefined();
+        expect(() => cursor.remove()).toThrow(Error);
+        expect(cursor.prev()).toBe(1);
+        cursor.seek(1);
+        cursor.remove();
+        expect(cursor.next()).toBe(5);
+        expect(Array.from(set)).toEqual([5]);
+    });
+
+    it("should step through entries that compare equal", () => {
+        type Player = { name: string; score: number };
+        const players = ["a", "b", "c", "d"].map((name): Player => ({ name, score: 1 }));
+        const set = new OrderedSet(
+            players,
+            (a, b) => a.name === b.name,
+            (a, b) => a.score - b.score,
+            (player) => player.name,
+        );
+        const cursor = set.cursor();
+        cursor.next();
+        cursor.next();
+        cursor.remove();
+        expect(cursor.next()?.name).toBe("c");
+        expect(cursor.prev()?.name).toBe("a");
+        expect(Array.from(set.reverseValues(), (player) => player.name)).toEqual(["d", "c", "a"]);
+    });
+});
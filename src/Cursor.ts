@@ -0,0 +1,144 @@
+import type { SortedTree } from "./SortedTree";
+
+type Position<T> =
+    | { kind: "start" }
+    | { kind: "end" }
+    | { kind: "at"; value: T }
+    /** Where a value was removed through the cursor, with its neighbours at the time. */
+    | { kind: "gap"; removed: T; prev: T | undefined; next: T | undefined };
+
+/**
+ * A position in a sorted collection that moves both ways, such as for merge scans or resuming
+ * after a given key. The cursor follows the collection as it changes: it stays where it is when
+ * other values are added or removed, and moves on from the value it is at even after that value
+ * is removed elsewhere.
+ *
+ * A new cursor is before the first value, so `next()` moves to the first value and `prev()` to
+ * the last.
+ */
+export class Cursor<T, E = T> {
+    private position: Position<T> = { kind: "start" };
+
+    /**
+     * @param tree the values of the collection, in order
+     * @param read turns a value into what the cursor reports, such as an entry
+     * @param deleteValue removes a value from the collection
+     */
+    constructor(
+        private tree: SortedTree<T>,
+        private read: (value: T) => E,
+        private deleteValue: (value: T) => void,
+    ) {}
+
+    /**
+     * What the cursor is at, or undefined if it is before the first value, after the last one, or
+     * where a value was removed.
+     */
+    get current(): E | undefined {
+        const position = this.position;
+        return position.kind === "at" && this.tree.indexOf(position.value) !== -1
+            ? this.read(position.value)
+            : undefined;
+    }
+
+    /**
+     * Moves to the least value that compares equal to or above the given one, or past the end if
+     * there is none.
+     * @returns what the cursor is now at
+     */
+    seek(value: T): E | undefined {
+        return this.moveTo(this.tree.ceiling(value), "end");
+    }
+
+    /**
+     * Moves to the next value in order.
+     * @returns what the cursor is now at, or undefined once it has moved past the end
+     */
+    next(): E | undefined {
+        const position = this.position;
+        switch (position.kind) {
+            case "start":
+                return this.moveTo(this.tree.first(), "end");
+            case "end":
+                return undefined;
+            case "at":
+                return this.moveTo(this.tree.successor(position.value), "end");
+            case "gap":
+                return this.moveTo(this.nextAfter(position.removed, position.next), "end");
+        }
+    }
+
+    /**
+     * Moves to the previous value in order.
+     * @returns what the cursor is now at, or undefined once it has moved before the start
+     */
+    prev(): E | undefined {
+        const position = this.position;
+        switch (position.kind) {
+            case "start":
+                return undefined;
+            case "end":
+                return this.moveTo(this.tree.last(), "start");
+            case "at":
+                return this.moveTo(this.tree.predecessor(position.value), "start");
+            case "gap":
+                return this.moveTo(this.prevBefore(position.removed, position.prev), "start");
+        }
+    }
+
+    /**
+     * Removes the value the cursor is at from the collection. The cursor stays in its place, so
+     * `next()` and `prev()` move to the values that were around it.
+     * @throws Error if the cursor is not at a value
+     */
+    remove(): void {
+        const position = this.position;
+        if (position.kind !== "at") {
+            throw new Error("The cursor is not at a value");
+        }
+        const { value } = position;
+        const prev = this.tree.predecessor(value);
+        const next = this.tree.successor(value);
+        this.deleteValue(value);
+        this.position = { kind: "gap", removed: value, prev, next };
+    }
+
+    /**
+     * Iterates the values after the cursor by calling `next()`, so the value it is at is not
+     * repeated.
+     */
+    *[Symbol.iterator](): IterableIterator<E> {
+        for (let entry = this.next(); this.position.kind === "at"; entry = this.next()) {
+            yield entry as E;
+        }
+    }
+
+    private moveTo(value: T | undefined, otherwise: "start" | "end"): E | undefined {
+        this.position = value !== undefined ? { kind: "at", value } : { kind: otherwise };
+        return this.current;
+    }
+
+    /**
+     * The value after a removed one. A neighbour that compared equal to it is kept, since equal
+     * values can't be told apart by position otherwise.
+     */
+    private nextAfter(removed: T, next: T | undefined): T | undefined {
+        if (next !== undefined && this.isTied(next, removed)) {
+            return next;
+        }
+        return this.tree.ceiling(removed, false);
+    }
+
+    private prevBefore(removed: T, prev: T | undefined): T | undefined {
+        if (prev !== undefined && this.isTied(prev, removed)) {
+            return prev;
+        }
+        return this.tree.floor(removed, false);
+    }
+
+    private isTied(neighbour: T, removed: T): boolean {
+        return (
+            this.tree.comparatorFn(neighbour, removed) === 0 && this.tree.indexOf(neighbour) !== -1
+        );
+    }
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "bun:test";
+import { Deque } from "./Deque";
+import { deriveEq } from "./shared";
+
+describe("Deque", () => {
+    it("should push and pop at both ends", () => {
+        const deque = new Deque<number>();
+        deque.pushBack(2);
+        deque.pushBack(3);
+        deque.pushFront(1);
+        expect(deque.toArray()).toEqual([1, 2, 3]);
+        expect(deque.peekFront()).toBe(1);
+        expect(deque.peekBack()).toBe(3);
+        expect(deque.popFront()).toBe(1);
+        expect(deque.popBack()).toBe(3);
+        expect(deque.popBack()).toBe(2);
+        expect(deque.popFront()).toBeUndefined();
+        expect(deque.isEmpty()).toBe(true);
+    });
+
+    it("should grow past its initial buffer from either end", () => {
+        const deque = new Deque<number>();
+        for (let i = 0; i < 50; i++) {
+            deque.pushFront(-i);
+            deque.pushBack(i);
+        }
+        expect(deque.size).toBe(100);
+        expect(deque.at(0)).toBe(-49);
+        expect(deque.at(99)).toBe(49);
+        expect(deque.capacity).toBeUndefined();
+    });
+
+    it("should read by position, counting negative positions from the end", () => {
+        const deque = new Deque([1, 2, 3, 4]);
+        deque.popFront();
+        deque.pushBack(5);
+        expect(deque.at(0)).toBe(2);
+        expect(deque.at(-1)).toBe(5);
+        expect(deque.at(4)).toBeUndefined();
+        expect(deque.at(-5)).toBeUndefined();
+        expect(deque.at(1.5)).toBeUndefined();
+    });
+
+    it("should rotate in both directions", () => {
+        const deque = new Deque([1, 2, 3, 4, 5]);
+        expect(deque.rotate(2).toArray()).toEqual([4, 5, 1, 2, 3]);
+        expect(deque.rotate(-3).toArray()).toEqual([2, 3, 4, 5, 1]);
+        expect(deque.rotate(4).toArray()).toEqual([3, 4, 5, 1, 2]);
+        expect(deque.rotate(10).toArray()).toEqual([3, 4, 5, 1, 2]);
+    });
+
+    it("should rotate a full buffer", () => {
+        const deque = new Deque([1, 2, 3], 3);
+        expect(deque.rotate(1).toArray()).toEqual([3, 1, 2]);
+        deque.pushBack(4);
+        expect(deque.toArray()).toEqual([1, 2, 4]);
+    });
+
+    it("should overwrite the other end once a fixed capacity is reached", () => {
+        const window = new Deque<number>(undefined, 3);
+        expect(window.pushBack(1)).toBeUndefined();
+        window.pushBack(2);
+        window.pushBack(3);
+        expect(window.pushBack(4)).toBe(1);
+        expect(window.toArray()).toEqual([2, 3, 4]);
+        expect(window.pushFront(0)).toBe(4);
+        expect(window.toArray()).toEqual([0, 2, 3]);
+        expect(window.capacity).toBe(3);
+        expect(() => new Deque(undefined, 0)).toThrow(RangeError);
+    });
+
+    it("should iterate forwards and backwards", () => {
+        const deque = new Deque([1, 2, 3]);
+        deque.pushFront(0);
+        expect(Array.from(deque)).toEqual([0, 1, 2, 3]);
+        expect(Array.from(deque.reverseValues())).toEqual([3, 2, 1, 0]);
+    });
+
+    it("should find Eq values by equality", () => {
+        class Point {
+            constructor(
+                readonly x: number,
+                readonly y: number,
+            ) {}
+        }
+        deriveEq(Point, ["x", "y"]);
+        const deque = new Deque([new Point(0, 0), new Point(1, 2)]);
+        expect(deque.has(new Point(1, 2))).toBe(true);
+        expect(deque.indexOf(new Point(1, 2))).toBe(1);
+        expect(deque.indexOf(new Point(2, 1))).toBe(-1);
+    });
+
+    it("should clear", () => {
+        const deque = new Deque([1, 2, 3]);
+        deque.clear();
+        expect(deque.size).toBe(0);
+        deque.pushBack(4);
+        expect(deque.toArray()).toEqual([4]);
+    });
+});
@@ -0,0 +1,226 @@
+import { defaultEqualityFn } from "./shared";
+
+const INITIAL_CAPACITY = 16;
+
+/**
+ * A double-ended queue on a circular buffer: adding and removing at either end and reading by
+ * position are O(1).
+ *
+ * By default the buffer grows as needed. Given a fixed capacity, the deque never grows; pushing
+ * onto a full deque drops the value at the other end instead, which makes it a rolling window.
+ */
+export class Deque<T> {
+    private buffer: Array<T | undefined>;
+    private head = 0;
+    private _size = 0;
+    private fixed: boolean;
+
+    /**
+     * @param capacity a fixed capacity, to overwrite the oldest values once full
+     */
+    constructor(iterable?: Iterable<T>, capacity?: number) {
+        if (capacity !== undefined && (!Number.isInteger(capacity) || capacity < 1)) {
+            throw new RangeError(`capacity must be a positive integer, got ${capacity}`);
+        }
+        this.fixed = capacity !== undefined;
+        this.buffer = new Array(capacity ?? INITIAL_CAPACITY);
+        if (iterable) {
+            for (const value of iterable) {
+                this.pushBack(value);
+            }
+        }
+    }
+
+    get size(): number {
+        return this._size;
+    }
+
+    /**
+     * The fixed capacity, or undefined if the deque grows as needed.
+     */
+    get capacity(): number | undefined {
+        return this.fixed ? this.buffer.length : undefined;
+    }
+
+    isEmpty(): boolean {
+        return this._size === 0;
+    }
+
+    /**
+     * Adds a value at the back.
+     * @returns the value dropped from the front to make room, if the deque has a fixed capacity
+     * and was full
+     */
+    pushBack(value: T): T | undefined {
+        const dropped = this.makeRoom(() => this.popFront());
+        this.buffer[this.slot(this._size)] = value;
+        this._size++;
+        return dropped;
+    }
+
+    /**
+     * Adds a value at the front.
+     * @returns the value dropped from the back to make room, if the deque has a fixed capacity
+     * and was full
+     */
+    pushFront(value: T): T | undefined {
+        const dropped = this.makeRoom(() => this.popBack());
+        this.head = this.slot(-1);
+        this.buffer[this.head] = value;
+        this._size++;
+        return dropped;
+    }
+
+    /**
+     * Removes and returns the value at the back, or undefined if the deque is empty.
+     */
+    popBack(): T | undefined {
+        if (this._size === 0) {
+            return undefined;
+        }
+        this._size--;
+        const index = this.slot(this._size);
+        const value = this.buffer[index];
+        this.buffer[index] = undefined;
+        return value;
+    }
+
+    /**
+     * Removes and returns the value at the front, or undefined if the deque is empty.
+     */
+    popFront(): T | undefined {
+        if (this._size === 0) {
+            return undefined;
+        }
+        const value = this.buffer[this.head];
+        this.buffer[this.head] = undefined;
+        this.head = this.slot(1);
+        this._size--;
+        return value;
+    }
+
+    peekBack(): T | undefined {
+        return this.at(-1);
+    }
+
+    peekFront(): T | undefined {
+        return this.at(0);
+    }
+
+    /**
+     * Returns the value at the given position from the front; negative positions count back from
+     * the end. Returns undefined if the position is out of range.
+     */
+    at(index: number): T | undefined {
+        const i = index < 0 ? index + this._size : index;
+        if (!Number.isInteger(i) || i < 0 || i >= this._size) {
+            return undefined;
+        }
+        return this.buffer[this.slot(i)];
+    }
+
+    /**
+     * Rotates the values n steps towards the back, wrapping the last values around to the front;
+     * a negative n rotates towards the front. O(1) when the buffer is full, otherwise
+     * O(min(n, size - n)).
+     */
+    rotate(n: number): this {
+        const size = this._size;
+        if (size === 0) {
+            return this;
+        }
+        const steps = ((Math.trunc(n) % size) + size) % size;
+        if (size === this.buffer.length) {
+            this.head = this.slot(size - steps);
+        } else if (steps <= size / 2) {
+            for (let i = 0; i < steps; i++) {
+                this.pushFront(this.popBack()!);
+            }
+        } else {
+            for (let i = steps; i < size; i++) {
+                this.pushBack(this.popFront()!);
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Returns true if an equal value is in the deque, compared with `defaultEqualityFn`.
+     */
+    has(value: T): boolean {
+        return this.indexOf(value) !== -1;
+    }
+
+    /**
+     * Returns the position of the first value equal to the given one, compared with
+     * `defaultEqualityFn`, or -1 if there is none.
+     */
+    indexOf(value: T): number {
+        for (let i = 0; i < this._size; i++) {
+            if (defaultEqualityFn(this.buffer[this.slot(i)] as T, value)) {
+                return i;
+            }
+        }
+        return -1;
+    }
+
+    clear(): void {
+        this.buffer.fill(undefined);
+        this.head = 0;
+        this._size = 0;
+    }
+
+    toArray(): Array<T> {
+        return Array.from(this);
+    }
+
+    /**
+     * Iterates the values from front to back.
+     */
+    *values(): IterableIterator<T> {
+        for (let i = 0; i < this._size; i++) {
+            yield this.buffer[this.slot(i)] as T;
+        }
+    }
+
+    /**
+     * Iterates the values from back to front.
+     */
+    *reverseValues(): IterableIterator<T> {
+        for (let i = this._size - 1; i >= 0; i--) {
+            yield this.buffer[this.slot(i)] as T;
+        }
+    }
+
+    [Symbol.iterator](): IterableIterator<T> {
+        return this.values();
+    }
+
+    /**
+     * Returns the buffer index of the given position from the front, which may be -1.
+     */
+    private slot(position: number): number {
+        const capacity = this.buffer.length;
+        return (((this.head + position) % capacity) + capacity) % capacity;
+    }
+
+    /**
+     * Makes room for one more value: grows the buffer, or if the capacity is fixed, drops a value
+     * with the given function.
+     */
+    private makeRoom(drop: () => T | undefined): T | undefined {
+        if (this._size < this.buffer.length) {
+            return undefined;
+        }
+        if (this.fixed) {
+            return drop();
+        }
+        const grown: Array<T | undefined> = new Array(this.buffer.length * 2);
+        for (let i = 0; i < this._size; i++) {
+            grown[i] = this.buffer[this.slot(i)];
+        }
+        this.buffer = grown;
+        this.head = 0;
+        return undefined;
+    }
+}
@@ -0,0 +1,64 @@
+import { AbstractBag } from "./Bag";
+import { EqualityMap, HashIndex, resolveHashFn } from "./HashIndex";
+import { decode, readSerialized, type Codec, type SerializedBag } from "./json";
+import type { CollectionOptions } from "./options";
+import { defaultEqualityFn, type HashCode } from "./shared";
+
+/**
+ * A Bag that keeps its unique values in insertion order.
+ */
+export class HashBag<T> extends AbstractBag<T> {
+    protected readonly counts: Map<T, number>;
+    protected readonly typeTag = "HashBag";
+    private equalityFn: (a: T, b: T) => boolean;
+    private hashFn: (value: T) => HashCode;
+    private options: CollectionOptions;
+
+    constructor(
+        iterable?: Iterable<T>,
+        equalityFn?: (a: T, b: T) => boolean,
+        hashFn?: (value: T) => HashCode,
+        options: CollectionOptions = {},
+    ) {
+        super(undefined, options);
+        this.options = options;
+        this.equalityFn = equalityFn ?? defaultEqualityFn;
+        this.hashFn = resolveHashFn(equalityFn, hashFn);
+        this.counts = new EqualityMap(new HashIndex(this.hashFn, this.equalityFn));
+        if (iterable) {
+            this.addAll(iterable);
+        }
+    }
+
+    protected create(): HashBag<T> {
+        return new HashBag(undefined, this.equalityFn, this.hashFn, this.options);
+    }
+
+    protected hashOf(value: T): HashCode {
+        return this.hashFn(value);
+    }
+
+    uniqueSet(): Set<T> {
+        return new Set(this.counts.keys());
+    }
+
+    /**
+     * Rebuilds a bag from its JSON form. Functions can't be serialized, so custom equality and
+     * hash functions must be passed again.
+     * @param json the JSON text or the parsed JSON form
+     * @param codec rebuilds values, such as class instances, from their JSON form
+     */
+    static fromJSON<T>(
+        json: string | SerializedBag,
+        codec?: Codec<T>,
+        equalityFn?: (a: T, b: T) => boolean,
+        hashFn?: (value: T) => HashCode,
+    ): HashBag<T> {
+        const { counts } = readSerialized(json, "HashBag");
+        const result = new HashBag(undefined, equalityFn, hashFn);
+        for (const [value, count] of counts) {
+            result.add(decode(codec, value), count);
+        }
+        return result;
+    }
+}
@@ -0,0 +1,163 @@
+import { defaultHashFn, hashFnFor, isDefaultHashable, type HashCode } from "./shared";
+
+/**
+ * Buckets values by hash so they can be found without scanning, comparing with the equality
+ * function only inside a bucket. Values without a usable hash, because the hash function is
+ * `noHashFn` or they are `Eq` implementers without `hash` under `defaultHashFn`, are kept in a
+ * list that every lookup scans, and looking one of them up scans every value. Lookups cost O(n)
+ * in the number of such values, or of all values for such a lookup.
+ */
+export class HashIndex<T> {
+    private buckets = new Map<HashCode, Array<T>>();
+    private unhashed: Array<T> = [];
+
+    constructor(
+        private hashFn: (value: T) => HashCode,
+        private equalityFn: (a: T, b: T) => boolean,
+    ) {}
+
+    /**
+     * Returns the stored value equal to the given one, if any.
+     */
+    find(value: T): T | undefined {
+        const hash = this.hashOf(value);
+        if (hash === undefined) {
+            for (const bucket of this.buckets.values()) {
+                const existing = this.findIn(bucket, value);
+                if (existing !== undefined) {
+                    return existing;
+                }
+            }
+        } else {
+            const bucket = this.buckets.get(hash);
+            const existing = bucket !== undefined ? this.findIn(bucket, value) : undefined;
+            if (existing !== undefined) {
+                return existing;
+            }
+        }
+        return this.findIn(this.unhashed, value);
+    }
+
+    /**
+     * Stores a value. The caller must make sure no equal value is stored already.
+     */
+    add(value: T): void {
+        const hash = this.hashOf(value);
+        if (hash === undefined) {
+            this.unhashed.push(value);
+            return;
+        }
+        const bucket = this.buckets.get(hash);
+        if (bucket === undefined) {
+            this.buckets.set(hash, [value]);
+        } else {
+            bucket.push(value);
+        }
+    }
+
+    /**
+     * Removes the stored value equal to the given one and returns it.
+     */
+    delete(value: T): T | undefined {
+        const existing = this.find(value);
+        if (existing === undefined) {
+            return undefined;
+        }
+        const hash = this.hashOf(existing);
+        if (hash === undefined) {
+            this.unhashed.splice(this.unhashed.indexOf(existing), 1);
+        } else {
+            const bucket = this.buckets.get(hash)!;
+            if (bucket.length === 1) {
+                this.buckets.delete(hash);
+            } else {
+                bucket.splice(bucket.indexOf(existing), 1);
+            }
+        }
+        return existing;
+    }
+
+    clear(): void {
+        this.buckets.clear();
+        this.unhashed = [];
+    }
+
+    private hashOf(value: T): HashCode | undefined {
+        if (this.hashFn === noHashFn) {
+            return undefined;
+        }
+        if (this.hashFn === defaultHashFn && !isDefaultHashable(value)) {
+            return undefined;
+        }
+        return this.hashFn(value);
+    }
+
+    private findIn(values: ReadonlyArray<T>, value: T): T | undefined {
+        for (const existing of values) {
+            if (this.equalityFn(existing, value)) {
+                return existing;
+            }
+        }
+        return undefined;
+    }
+}
+
+/**
+ * A Map that looks up keys through a hash index, keeping the first key it was given.
+ */
+export class EqualityMap<K, V> extends Map<K, V> {
+    constructor(private index: HashIndex<K>) {
+        super();
+    }
+
+    set(key: K, value: V): this {
+        let existingKey = this.index.find(key);
+        if (existingKey === undefined) {
+            this.index.add(key);
+            existingKey = key;
+        }
+        return super.set(existingKey, value);
+    }
+
+    get(key: K): V | undefined {
+        const existing = this.index.find(key);
+        return existing !== undefined ? super.get(existing) : undefined;
+    }
+
+    has(key: K): boolean {
+        return this.index.find(key) !== undefined;
+    }
+
+    delete(key: K): boolean {
+        const existing = this.index.delete(key);
+        return existing !== undefined ? super.delete(existing) : false;
+    }
+
+    clear(): void {
+        this.index.clear();
+        super.clear();
+    }
+}
+
+/**
+ * Picks the hash function for a collection. A custom equality function without a matching hash
+ * function, given here or recorded with `pairHashFn`, can't be trusted with `defaultHashFn`, so
+ * it gets `noHashFn` and lookups scan every value, as they would without an index.
+ */
+export function resolveHashFn<T>(
+    equalityFn?: (a: T, b: T) => boolean,
+    hashFn?: (value: T) => HashCode,
+): (value: T) => HashCode {
+    if (hashFn !== undefined) {
+        return hashFn;
+    }
+    return equalityFn ? (hashFnFor(equalityFn) ?? noHashFn) : defaultHashFn;
+}
+
+/**
+ * Stands in for a missing hash function. It hashes everything to 0, which keeps the `hash()` of
+ * collections consistent, and tells HashIndex to find values by scanning.
+ */
+export function noHashFn(): HashCode {
+    return 0;
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect } from "bun:test";
+import { IndexedCollection, UniqueConstraintError } from "./IndexedCollection";
+import { caseInsensitive } from "./shared";
+
+interface User {
+    id: number;
+    email: string;
+    team: string;
+    created: number;
+}
+
+const alice: User = { id: 1, email: "alice@example.com", team: "core", created: 300 };
+const bob: User = { id: 2, email: "bob@example.com", team: "web", created: 100 };
+const carol: User = { id: 3, email: "carol@example.com", team: "core", created: 200 };
+
+const users = (items: Iterable<User> = [alice, bob, carol]) =>
+    new IndexedCollection(
+        {
+            id: { key: (user: User) => user.id, unique: true },
+            email: { key: (user: User) => user.email, unique: true, equalityFn: caseInsensitive },
+            team: { key: (user: User) => user.team },
+            created: { key: (user: User) => user.created, kind: "sorted" },
+        },
+        Array.from(items, (user) => ({ ...user })),
+    );
+
+describe("IndexedCollection", () => {
+    it("should look items up by every index", () => {
+        const collection = users();
+        expect(collection.size).toBe(3);
+        expect(collection.index("id").get(2)?.email).toBe("bob@example.com");
+        expect(collection.index("email").get("ALICE@example.com")?.id).toBe(1);
+        expect(collection.index("email").has("dave@example.com")).toBe(false);
+        expect(
+            collection
+                .index("team")
+                .getAll("core")
+                .map((user) => user.id),
+        ).toEqual([1, 3]);
+        expect(collection.index("team").count("web")).toBe(1);
+        expect(Array.from(collection.index("team").keys())).toEqual(["core", "web"]);
+        expect(collection.index("created").get(200)?.id).toBe(3);
+    });
+
+    it("should scan sorted indexes by range", () => {
+        const created = users().index("created");
+        const ids = (items: Iterable<User>) => Array.from(items, (user) => user.id);
+        expect(ids(created.range(100, 300))).toEqual([2, 3]);
+        expect(ids(created.range(100, 300, { loInclusive: false, hiInclusive: true }))).toEqual([
+            3, 1,
+        ]);
+        expect(ids(created.range(150))).toEqual([3, 1]);
+        expect(ids(created.range(undefined, 250))).toEqual([2, 3]);
+        expect(created.first()?.id).toBe(2);
+        expect(created.last()?.id).toBe(1);
+        expect(Array.from(created.keys())).toEqual([100, 200, 300]);
+    });
+
+    it("should reject unique violations without changing anything", () => {
+        const collection = users();
+        const dave = { id: 4, email: "BOB@example.com", team: "web", created: 400 };
+        expect(() => collection.add(dave)).toThrow(UniqueConstraintError);
+        expect(collection.size).toBe(3);
+        expect(collection.index("team").count("web")).toBe(1);
+        expect(collection.index("created").get(400)).toBeUndefined();
+        let error: unknown;
+        try {
+            collection.add({ ...dave, email: "dave@example.com", id: 1 });
+        } catch (e) {
+            error = e;
+        }
+        expect(error).toBeInstanceOf(UniqueConstraintError);
+        expect(error).toMatchObject({ index: "id", key: 1 });
+    });
+
+    it("should move updated items to their new keys", () => {
+        const collection = users();
+        const bob = collection.index("id").get(2)!;
+        collection.update(bob, (user) => {
+            user.team = "core";
+            user.created = 500;
+        });
+        expect(
+            collection
+                .index("team")
+                .getAll("core")
+                .map((user) => user.id),
+        ).toEqual([1, 3, 2]);
+        expect(collection.index("team").has("web")).toBe(false);
+        expect(collection.index("created").last()).toBe(bob);
+        expect(collection.index("created").get(100)).toBeUndefined();
+        collection.update(bob, (user) => {
+            user.email = "BOB@example.com";
+        });
+        expect(collection.index("email").get("bob@example.com")).toBe(bob);
+    });
+
+    it("should roll back an update that breaks a unique index", () => {
+        const collection = users();
+        const bob = collection.index("id").get(2)!;
+        expect(() =>
+            collection.update(bob, (user) => {
+                user.team = "core";
+                user.email = "carol@example.com";
+            }),
+        ).toThrow(UniqueConstraintError);
+        expect(bob).toEqual({ id: 2, email: "bob@example.com", team: "web", created: 100 });
+        expect(collection.index("team").get("web")).toBe(bob);
+        expect(collection.index("email").get("carol@example.com")?.id).toBe(3);
+
+        expect(() =>
+            collection.update(bob, (user) => {
+                user.created = 0;
+                throw new Error("failed");
+            }),
+        ).toThrow("failed");
+        expect(bob.created).toBe(100);
+        expect(collection.index("created").first()).toBe(bob);
+        expect(() => collection.update({ ...bob }, () => {})).toThrow(Error);
+    });
+
+    it("should delete and clear every index", () => {
+        const collection = users();
+        const carol = collection.index("id").get(3)!;
+        expect(collection.delete(carol)).toBe(true);
+        expect(collection.delete(carol)).toBe(false);
+        expect(collection.index("email").has("carol@example.com")).toBe(false);
+        expect(Array.from(collection.index("created").range(), (user) => user.id)).toEqual([2, 1]);
+        collection.add(carol);
+        expect(collection.toArray().map((user) => user.id)).toEqual([1, 2, 3]);
+        collection.clear();
+        expect(collection.isEmpty()).toBe(true);
+        expect(collection.index("team").has("core")).toBe(false);
+        expect(collection.index("created").first()).toBeUndefined();
+        collection.add(carol);
+        expect(collection.index("id").get(3)).toBe(carol);
+    });
+});
@@ -0,0 +1,430 @@
+import { EqualityMap, HashIndex, resolveHashFn } from "./HashIndex";
+import { Bounds, SortedTree, type Bound, type RangeOptions } from "./SortedTree";
+import { defaultComparatorFn, defaultEqualityFn, type HashCode } from "./shared";
+
+/**
+ * The functions are declared as methods so that definitions with any key type fit the
+ * `IndexDefinition<T>` constraint of IndexedCollection.
+ */
+interface BaseIndexDefinition<T, K> {
+    /** Extracts the key an item is indexed under. */
+    key(item: T): K;
+    /** Whether at most one item may have each key, false by default. */
+    unique?: boolean;
+}
+
+/**
+ * An index that finds items by a key compared with `equalityFn` and bucketed by `hashFn`, which
+ * default as for OrderedMap keys.
+ */
+export interface HashIndexDefinition<T, K> extends BaseIndexDefinition<T, K> {
+    kind?: "hash";
+    equalityFn?(a: K, b: K): boolean;
+    hashFn?(key: K): HashCode;
+}
+
+/**
+ * An index that keeps items sorted by a key and finds them by `comparatorFn`; keys that compare
+ * equal are the same key.
+ */
+export interface SortedIndexDefinition<T, K> extends BaseIndexDefinition<T, K> {
+    kind: "sorted";
+    comparatorFn?(a: K, b: K): number;
+}
+
+export type IndexDefinition<T, K = unknown> =
+    HashIndexDefinition<T, K> | SortedIndexDefinition<T, K>;
+
+/**
+ * Looks up the items of an IndexedCollection by one of its keys.
+ */
+export interface Index<T, K> {
+    /**
+     * Returns the first item added with the key, or undefined if there is none.
+     */
+    get(key: K): T | undefined;
+    /**
+     * Returns the items with the key, in the order they were added.
+     */
+    getAll(key: K): Array<T>;
+    has(key: K): boolean;
+    /**
+     * Returns the number of items with the key.
+     */
+    count(key: K): number;
+    /**
+     * Iterates the distinct keys.
+     */
+    keys(): IterableIterator<K>;
+}
+
+/**
+ * An Index that also scans items in key order.
+ */
+export interface SortedIndex<T, K> extends Index<T, K> {
+    /**
+     * Iterates the items with keys from lo to hi, in key order. By default lo is included and hi
+     * is not; an undefined end is unbounded.
+     */
+    range(lo?: K, hi?: K, options?: RangeOptions): IterableIterator<T>;
+    /**
+     * Returns the first item with the lowest key, or undefined if there are no items.
+     */
+    first(): T | undefined;
+    /**
+     * Returns the last item with the highest key, or undefined if there are no items.
+     */
+    last(): T | undefined;
+}
+
+export type IndexOf<T, D> =
+    D extends SortedIndexDefinition<T, infer K>
+        ? SortedIndex<T, K>
+        : D extends HashIndexDefinition<T, infer K>
+          ? Index<T, K>
+          : never;
+
+/**
+ * Thrown when an item would share a key with another item in a unique index.
+ */
+export class UniqueConstraintError extends Error {
+    constructor(
+        readonly index: string,
+        readonly key: unknown,
+    ) {
+        super(`Another item already has this key in the unique index "${index}"`);
+        this.name = "UniqueConstraintError";
+    }
+}
+
+/**
+ * A collection of items that keeps named indexes in sync, so the same items can be found by
+ * several keys, such as by id, by email and by creation date. Items are held by identity and
+ * iterate in the order they were added.
+ */
+export class IndexedCollection<T, D extends Record<string, IndexDefinition<T>>> {
+    private items = new Set<T>();
+    private indexes = new Map<string, KeyIndex<T, unknown>>();
+
+    constructor(definitions: D, items?: Iterable<T>) {
+        for (const [name, definition] of Object.entries(definitions)) {
+            this.indexes.set(
+                name,
+                definition.kind === "sorted"
+                    ? new SortedKeyIndex(definition)
+                    : new HashKeyIndex(definition),
+            );
+        }
+        if (items) {
+            for (const item of items) {
+                this.add(item);
+            }
+        }
+    }
+
+    get size(): number {
+        return this.items.size;
+    }
+
+    isEmpty(): boolean {
+        return this.items.size === 0;
+    }
+
+    /**
+     * Returns the index with the given name.
+     */
+    index<N extends keyof D & string>(name: N): IndexOf<T, D[N]> {
+        return this.indexes.get(name) as unknown as IndexOf<T, D[N]>;
+    }
+
+    has(item: T): boolean {
+        return this.items.has(item);
+    }
+
+    /**
+     * Adds an item to the collection and every index. Adding an item that is already in the
+     * collection does nothing.
+     * @throws UniqueConstraintError if another item has one of its keys in a unique index, in
+     * which case nothing is added
+     */
+    add(item: T): this {
+        if (!this.items.has(item)) {
+            this.insert(item, this.keysOf(item));
+            this.items.add(item);
+        }
+        return this;
+    }
+
+    /**
+     * Removes an item from the collection and every index.
+     * @returns true if the item was in the collection
+     */
+    delete(item: T): boolean {
+        if (!this.items.delete(item)) {
+            return false;
+        }
+        for (const index of this.indexes.values()) {
+            index.remove(item);
+        }
+        return true;
+    }
+
+    clear(): void {
+        this.items.clear();
+        for (const index of this.indexes.values()) {
+            index.clear();
+        }
+    }
+
+    /**
+     * Changes an item in place and moves it to its new keys in every index. If the mutator throws
+     * or the new keys break a unique index, the item's own properties are put back as they were
+     * (a shallow restore) and it stays under its old keys.
+     * @throws Error if the item is not in the collection
+     * @throws UniqueConstraintError if another item has one of the new keys in a unique index
+     */
+    update(item: T, mutator: (item: T) => void): T {
+        if (!this.items.has(item)) {
+            throw new Error("The item is not in this collection");
+        }
+        const snapshot = typeof item === "object" && item !== null ? { ...item } : undefined;
+        try {
+            mutator(item);
+            this.insert(item, this.keysOf(item));
+        } catch (error) {
+            if (snapshot !== undefined) {
+                restore(item as object, snapshot);
+            }
+            throw error;
+        }
+        return item;
+    }
+
+    values(): IterableIterator<T> {
+        return this.items.values();
+    }
+
+    [Symbol.iterator](): IterableIterator<T> {
+        return this.values();
+    }
+
+    toArray(): Array<T> {
+        return Array.from(this.items);
+    }
+
+    private keysOf(item: T): Map<KeyIndex<T, unknown>, unknown> {
+        const result = new Map<KeyIndex<T, unknown>, unknown>();
+        for (const index of this.indexes.values()) {
+            result.set(index, index.keyOf(item));
+        }
+        return result;
+    }
+
+    /**
+     * Indexes an item under the given keys, moving it if it is indexed already. Every unique
+     * index is checked first, so nothing changes if one of them would be broken.
+     */
+    private insert(item: T, keys: Map<KeyIndex<T, unknown>, unknown>): void {
+        for (const [name, index] of this.indexes) {
+            const key = keys.get(index);
+            if (index.unique && index.getAll(key).some((other) => other !== item)) {
+                throw new UniqueConstraintError(name, key);
+            }
+        }
+        for (const index of this.indexes.values()) {
+            index.remove(item);
+            index.insert(item, keys.get(index));
+        }
+    }
+}
+
+/**
+ * The storage of an index. Every index remembers the key each item was indexed under, so items
+ * can be removed after they have changed.
+ */
+abstract class KeyIndex<T, K> implements Index<T, K> {
+    readonly unique: boolean;
+    private extract: (item: T) => K;
+    private lastKeys = new Map<T, K>();
+
+    constructor(definition: BaseIndexDefinition<T, K>) {
+        this.unique = definition.unique ?? false;
+        this.extract = definition.key;
+    }
+
+    abstract getAll(key: K): Array<T>;
+    abstract count(key: K): number;
+    abstract keys(): IterableIterator<K>;
+    protected abstract store(item: T, key: K): void;
+    protected abstract unstore(item: T, key: K): void;
+    protected abstract reset(): void;
+
+    get(key: K): T | undefined {
+        return this.getAll(key)[0];
+    }
+
+    has(key: K): boolean {
+        return this.count(key) > 0;
+    }
+
+    keyOf(item: T): K {
+        return this.extract(item);
+    }
+
+    insert(item: T, key: K): void {
+        this.lastKeys.set(item, key);
+        this.store(item, key);
+    }
+
+    remove(item: T): void {
+        if (this.lastKeys.has(item)) {
+            this.unstore(item, this.lastKeys.get(item) as K);
+            this.lastKeys.delete(item);
+        }
+    }
+
+    clear(): void {
+        this.lastKeys.clear();
+        this.reset();
+    }
+}
+
+class HashKeyIndex<T, K> extends KeyIndex<T, K> {
+    private buckets: EqualityMap<K, Array<T>>;
+
+    constructor(definition: HashIndexDefinition<T, K>) {
+        super(definition);
+        const equalityFn = definition.equalityFn ?? defaultEqualityFn;
+        const hashFn = resolveHashFn(definition.equalityFn, definition.hashFn);
+        this.buckets = new EqualityMap(new HashIndex(hashFn, equalityFn));
+    }
+
+    getAll(key: K): Array<T> {
+        return this.buckets.get(key)?.slice() ?? [];
+    }
+
+    count(key: K): number {
+        return this.buckets.get(key)?.length ?? 0;
+    }
+
+    keys(): IterableIterator<K> {
+        return this.buckets.keys();
+    }
+
+    protected store(item: T, key: K): void {
+        const bucket = this.buckets.get(key);
+        if (bucket === undefined) {
+            this.buckets.set(key, [item]);
+        } else {
+            bucket.push(item);
+        }
+    }
+
+    protected unstore(item: T, key: K): void {
+        const bucket = this.buckets.get(key)!;
+        bucket.splice(bucket.indexOf(item), 1);
+        if (bucket.length === 0) {
+            this.buckets.delete(key);
+        }
+    }
+
+    protected reset(): void {
+        this.buckets.clear();
+    }
+}
+
+interface SortedEntry<T, K> {
+    key: K;
+    item: T;
+}
+
+class SortedKeyIndex<T, K> extends KeyIndex<T, K> implements SortedIndex<T, K> {
+    private comparatorFn: (a: K, b: K) => number;
+    private entryComparatorFn: (a: SortedEntry<T, K>, b: SortedEntry<T, K>) => number;
+    private tree: SortedTree<SortedEntry<T, K>>;
+    private entries = new Map<T, SortedEntry<T, K>>();
+
+    constructor(definition: SortedIndexDefinition<T, K>) {
+        super(definition);
+        this.comparatorFn = definition.comparatorFn ?? defaultComparatorFn;
+        this.entryComparatorFn = (a, b) => this.comparatorFn(a.key, b.key);
+        this.tree = new SortedTree(this.entryComparatorFn);
+    }
+
+    getAll(key: K): Array<T> {
+        return Array.from(this.range(key, key, { hiInclusive: true }));
+    }
+
+    count(key: K): number {
+        let result = 0;
+        for (const _ of this.scan(bound<T, K>(key, true), bound<T, K>(key, true))) {
+            result++;
+        }
+        return result;
+    }
+
+    *keys(): IterableIterator<K> {
+        let previous: SortedEntry<T, K> | undefined;
+        for (const entry of this.tree.values()) {
+            if (previous === undefined || this.comparatorFn(previous.key, entry.key) !== 0) {
+                yield entry.key;
+            }
+            previous = entry;
+        }
+    }
+
+    *range(lo?: K, hi?: K, options: RangeOptions = {}): IterableIterator<T> {
+        const from = lo !== undefined ? bound<T, K>(lo, options.loInclusive ?? true) : undefined;
+        const to = hi !== undefined ? bound<T, K>(hi, options.hiInclusive ?? false) : undefined;
+        for (const entry of this.scan(from, to)) {
+            yield entry.item;
+        }
+    }
+
+    first(): T | undefined {
+        return this.tree.first()?.item;
+    }
+
+    last(): T | undefined {
+        return this.tree.last()?.item;
+    }
+
+    protected store(item: T, key: K): void {
+        const entry = { key, item };
+        this.entries.set(item, entry);
+        this.tree.insert(entry);
+    }
+
+    protected unstore(item: T): void {
+        this.tree.delete(this.entries.get(item)!);
+        this.entries.delete(item);
+    }
+
+    protected reset(): void {
+        this.tree.clear();
+        this.entries.clear();
+    }
+
+    private scan(
+        lo?: Bound<SortedEntry<T, K>>,
+        hi?: Bound<SortedEntry<T, K>>,
+    ): IterableIterator<SortedEntry<T, K>> {
+        return this.tree.range(new Bounds(this.entryComparatorFn, lo, hi));
+    }
+}
+
+function bound<T, K>(key: K, inclusive: boolean): Bound<SortedEntry<T, K>> {
+    return { value: { key, item: undefined as T }, inclusive };
+}
+
+/**
+ * Puts an object's own properties back as they were in the snapshot.
+ */
+function restore(target: object, snapshot: object): void {
+    for (const key of Object.keys(target)) {
+        if (!Object.hasOwn(snapshot, key)) {
+            delete (target as Record<string, unknown>)[key];
+        }
+    }
+    Object.assign(target, snapshot);
+}
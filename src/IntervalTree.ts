@@ -0,0 +1,188 @@
+import { height, rebalance, removeNode } from "./avl";
+import { checkRange, type Range } from "./Range";
+import { defaultComparatorFn, defaultEqualityFn } from "./shared";
+
+interface Node<K, V> {
+    lo: K;
+    hi: K;
+    value: V;
+    left: Node<K, V> | undefined;
+    right: Node<K, V> | undefined;
+    height: number;
+    /** The highest `hi` in this subtree. */
+    maxHi: K;
+}
+
+/**
+ * Holds half-open ranges of keys with values, which may overlap, and finds the ones that contain
+ * a key or overlap a range in O(log n + m) for m results. An AVL tree ordered by lower end, where
+ * every node also knows the highest upper end below it.
+ */
+export class IntervalTree<K, V> {
+    private root?: Node<K, V>;
+    private _size = 0;
+    private comparatorFn: (a: K, b: K) => number;
+
+    /** Recomputes a node's height and highest upper end from its children. */
+    private readonly update = (node: Node<K, V>): Node<K, V> => {
+        node.height = Math.max(height(node.left), height(node.right)) + 1;
+        node.maxHi = node.hi;
+        for (const child of [node.left, node.right]) {
+            if (child !== undefined && this.comparatorFn(child.maxHi, node.maxHi) > 0) {
+                node.maxHi = child.maxHi;
+            }
+        }
+        return node;
+    };
+
+    constructor(entries?: Iterable<[Range<K>, V]>, comparatorFn?: (a: K, b: K) => number) {
+        this.comparatorFn = comparatorFn ?? defaultComparatorFn;
+        if (entries) {
+            for (const [range, value] of entries) {
+                this.add(range, value);
+            }
+        }
+    }
+
+    get size(): number {
+        return this._size;
+    }
+
+    isEmpty(): boolean {
+        return this._size === 0;
+    }
+
+    /**
+     * Adds a range with its value. The same range may be added more than once.
+     * @throws RangeError if the range's lower end is above its upper end
+     */
+    add(range: Range<K>, value: V): this {
+        checkRange(range, this.comparatorFn);
+        this.root = this.insertAt(this.root, range.lo, range.hi, value);
+        this._size++;
+        return this;
+    }
+
+    /**
+     * Removes one occurrence of the range, with the given value if one is given, compared with
+     * `defaultEqualityFn`.
+     * @returns true if a range was removed
+     */
+    delete(range: Range<K>, ...value: [] | [V]): boolean {
+        const sizeBefore = this._size;
+        const matches = (node: Node<K, V>) =>
+            this.comparatorFn(node.hi, range.hi) === 0 &&
+            (value.length === 0 || defaultEqualityFn(node.value, value[0]));
+        this.root = this.deleteAt(this.root, range.lo, matches);
+        return this._size < sizeBefore;
+    }
+
+    clear(): void {
+        this.root = undefined;
+        this._size = 0;
+    }
+
+    /**
+     * Returns the ranges that contain the key, with their values, ordered by lower end.
+     */
+    stab(key: K): Array<[Range<K>, V]> {
+        const result: Array<[Range<K>, V]> = [];
+        this.collect(this.root, key, key, true, result);
+        return result;
+    }
+
+    /**
+     * Returns the ranges that overlap the given one, with their values, ordered by lower end.
+     */
+    overlapping(range: Range<K>): Array<[Range<K>, V]> {
+        const result: Array<[Range<K>, V]> = [];
+        if (!checkRange(range, this.comparatorFn)) {
+            this.collect(this.root, range.lo, range.hi, false, result);
+        }
+        return result;
+    }
+
+    /**
+     * Iterates the ranges with their values, ordered by lower end.
+     */
+    *entries(): IterableIterator<[Range<K>, V]> {
+        const stack: Array<Node<K, V>> = [];
+        let node = this.root;
+        while (node !== undefined || stack.length > 0) {
+            while (node !== undefined) {
+                stack.push(node);
+                node = node.left;
+            }
+            node = stack.pop()!;
+            yield [{ lo: node.lo, hi: node.hi }, node.value];
+            node = node.right;
+        }
+    }
+
+    [Symbol.iterator](): IterableIterator<[Range<K>, V]> {
+        return this.entries();
+    }
+
+    /**
+     * Collects, in order, the ranges that end above `from` and start below `to`, or at `to` when
+     * `toInclusive`.
+     */
+    private collect(
+        node: Node<K, V> | undefined,
+        from: K,
+        to: K,
+        toInclusive: boolean,
+        result: Array<[Range<K>, V]>,
+    ): void {
+        if (node === undefined || this.comparatorFn(node.maxHi, from) <= 0) {
+            return;
+        }
+        this.collect(node.left, from, to, toInclusive, result);
+        const order = this.comparatorFn(node.lo, to);
+        if (order < 0 || (toInclusive && order === 0)) {
+            if (this.comparatorFn(from, node.hi) < 0) {
+                result.push([{ lo: node.lo, hi: node.hi }, node.value]);
+            }
+            this.collect(node.right, from, to, toInclusive, result);
+        }
+    }
+
+    private insertAt(node: Node<K, V> | undefined, lo: K, hi: K, value: V): Node<K, V> {
+        if (node === undefined) {
+            return { lo, hi, value, left: undefined, right: undefined, height: 1, maxHi: hi };
+        }
+        if (this.comparatorFn(lo, node.lo) < 0) {
+            node.left = this.insertAt(node.left, lo, hi, value);
+        } else {
+            node.right = this.insertAt(node.right, lo, hi, value);
+        }
+        return rebalance(node, this.update);
+    }
+
+    private deleteAt(
+        node: Node<K, V> | undefined,
+        lo: K,
+        matches: (node: Node<K, V>) => boolean,
+    ): Node<K, V> | undefined {
+        if (node === undefined) {
+            return undefined;
+        }
+        const order = this.comparatorFn(lo, node.lo);
+        if (order < 0) {
+            node.left = this.deleteAt(node.left, lo, matches);
+        } else if (order > 0) {
+            node.right = this.deleteAt(node.right, lo, matches);
+        } else if (matches(node)) {
+            this._size--;
+            return removeNode(node, this.update);
+        } else {
+            // Ranges with the same lower end can straddle this node, so look on both sides.
+            const sizeBefore = this._size;
+            node.left = this.deleteAt(node.left, lo, matches);
+            if (this._size === sizeBefore) {
+                node.right = this.deleteAt(node.right, lo, matches);
+            }
+        }
+        return rebalance(node, this.update);
+    }
+}
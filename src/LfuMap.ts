@@ -0,0 +1,77 @@
+import { CacheMap, type CacheOptions } from "./CacheMap";
+import type { HashCode } from "./shared";
+
+/**
+ * A cache that evicts the least frequently used entry first, and of those the least recently
+ * used. `get` and `set` count as use; `peek` and `has` don't.
+ */
+export class LfuMap<K, V> extends CacheMap<K, V> {
+    private uses = new Map<K, number>();
+    /** Keys by use count, each set from least to most recently used. */
+    private buckets = new Map<number, Set<K>>();
+    private minUses = 0;
+
+    constructor(
+        entries?: Iterable<[K, V]>,
+        equalityFn?: (a: K, b: K) => boolean,
+        hashFn?: (key: K) => HashCode,
+        options: CacheOptions<K, V> = {},
+    ) {
+        super(equalityFn, hashFn, options);
+        if (entries) {
+            for (const [key, value] of entries) {
+                this.set(key, value);
+            }
+        }
+    }
+
+    protected track(key: K): void {
+        this.uses.set(key, 1);
+        this.bucket(1).add(key);
+        this.minUses = 1;
+    }
+
+    protected untrack(key: K): void {
+        const uses = this.uses.get(key)!;
+        this.uses.delete(key);
+        this.leave(key, uses);
+    }
+
+    protected promote(key: K): void {
+        const uses = this.uses.get(key)!;
+        this.uses.set(key, uses + 1);
+        this.leave(key, uses);
+        this.bucket(uses + 1).add(key);
+        if (this.minUses === uses && !this.buckets.has(uses)) {
+            this.minUses = uses + 1;
+        }
+    }
+
+    protected victim(): K | undefined {
+        if (!this.buckets.has(this.minUses)) {
+            // Removals can empty the lowest bucket; this is the only place that needs it again.
+            this.minUses = Math.min(...this.buckets.keys());
+        }
+        return this.buckets.get(this.minUses)?.values().next().value;
+    }
+
+    private bucket(uses: number): Set<K> {
+        let bucket = this.buckets.get(uses);
+        if (bucket === undefined) {
+            bucket = new Set();
+            this.buckets.set(uses, bucket);
+        }
+        return bucket;
+    }
+
+    /**
+     * Takes the key out of the bucket for its use count, dropping the bucket once it is empty.
+     */
+    private leave(key: K, uses: number): void {
+        const bucket = this.buckets.get(uses)!;
+        bucket.delete(key);
+        if (bucket.size === 0) {
+            this.buckets.delete(uses);
+        }
+    }
+}
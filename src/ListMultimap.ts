@@ -0,0 +1,122 @@
+import { AbstractMultimap, MultimapView } from "./Multimap";
+import { defaultEqualityFn, type HashCode } from "./shared";
+
+/**
+ * A Multimap that keeps its keys sorted and the values under each key in a list, in the order
+ * they were put. The same value may appear more than once under a key.
+ */
+export class ListMultimap<K, V> extends AbstractMultimap<K, V, Array<V>> {
+    /**
+     * Keys are compared with `equalityFn` and `comparatorFn` like the keys of an OrderedMap.
+     * Values are compared with `defaultEqualityFn`.
+     */
+    constructor(
+        entries?: Iterable<[K, V]>,
+        equalityFn?: (a: K, b: K) => boolean,
+        comparatorFn?: (a: K, b: K) => number,
+        hashFn?: (key: K) => HashCode,
+    ) {
+        super(equalityFn, comparatorFn, hashFn);
+        if (entries) {
+            for (const [key, value] of entries) {
+                this.put(key, value);
+            }
+        }
+    }
+
+    get(key: K): ListMultimapView<K, V> {
+        return new ListMultimapView(this, key, () => this.map.get(key));
+    }
+
+    asMap(): ReadonlyMap<K, ReadonlyArray<V>> {
+        return new MultimapView(this.map, (values) => values.slice());
+    }
+
+    protected createValues(): Array<V> {
+        return [];
+    }
+
+    protected addValue(values: Array<V>, value: V): boolean {
+        values.push(value);
+        return true;
+    }
+
+    protected deleteValue(values: Array<V>, value: V): boolean {
+        const index = values.findIndex((v) => defaultEqualityFn(v, value));
+        if (index === -1) {
+            return false;
+        }
+        values.splice(index, 1);
+        return true;
+    }
+
+    protected hasValue(values: Array<V>, value: V): boolean {
+        return values.some((v) => defaultEqualityFn(v, value));
+    }
+
+    protected countValues(values: Array<V>): number {
+        return values.length;
+    }
+}
+
+/**
+ * A live view of the values under one key of a ListMultimap. Reads reflect later changes to the
+ * multimap, and writes go through to it.
+ */
+export class ListMultimapView<K, V> implements Iterable<V> {
+    constructor(
+        private parent: ListMultimap<K, V>,
+        private key: K,
+        private lookup: () => ReadonlyArray<V> | undefined,
+    ) {}
+
+    get size(): number {
+        return this.parent.count(this.key);
+    }
+
+    /**
+     * Returns the value at the given position; negative positions count back from the end.
+     */
+    at(index: number): V | undefined {
+        return this.lookup()?.at(index);
+    }
+
+    indexOf(value: V): number {
+        return this.lookup()?.findIndex((v) => defaultEqualityFn(v, value)) ?? -1;
+    }
+
+    has(value: V): boolean {
+        return this.parent.hasEntry(this.key, value);
+    }
+
+    /**
+     * Appends the value to the list, adding the key to the multimap if needed.
+     */
+    add(value: V): this {
+        this.parent.put(this.key, value);
+        return this;
+    }
+
+    /**
+     * Removes the first occurrence of the value, and the key with its last value.
+     */
+    delete(value: V): boolean {
+        return this.parent.removeValue(this.key, value);
+    }
+
+    clear(): void {
+        this.parent.removeAll(this.key);
+    }
+
+    toArray(): Array<V> {
+        return Array.from(this.lookup() ?? []);
+    }
+
+    values(): IterableIterator<V> {
+        return this.toArray().values();
+    }
+
+    [Symbol.iterator](): IterableIterator<V> {
+        return this.values();
+    }
+}
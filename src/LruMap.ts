@@ -0,0 +1,42 @@
+import { CacheMap, type CacheOptions } from "./CacheMap";
+import type { HashCode } from "./shared";
+
+/**
+ * A cache that evicts the least recently used entry first. `get` and `set` count as use; `peek`
+ * and `has` don't.
+ */
+export class LruMap<K, V> extends CacheMap<K, V> {
+    /** Keys from least to most recently used. */
+    private recency = new Set<K>();
+
+    constructor(
+        entries?: Iterable<[K, V]>,
+        equalityFn?: (a: K, b: K) => boolean,
+        hashFn?: (key: K) => HashCode,
+        options: CacheOptions<K, V> = {},
+    ) {
+        super(equalityFn, hashFn, options);
+        if (entries) {
+            for (const [key, value] of entries) {
+                this.set(key, value);
+            }
+        }
+    }
+
+    protected track(key: K): void {
+        this.recency.add(key);
+    }
+
+    protected untrack(key: K): void {
+        this.recency.delete(key);
+    }
+
+    protected promote(key: K): void {
+        this.recency.delete(key);
+        this.recency.add(key);
+    }
+
+    protected victim(): K | undefined {
+        return this.recency.values().next().value;
+    }
+}
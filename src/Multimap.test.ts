@@ -0,0 +1,170 @@
+import { describe, it, expect } from "bun:test";
+import { ListMultimap } from "./ListMultimap";
+import { SetMultimap } from "./SetMultimap";
+import { caseInsensitive, localeCompare, reversed } from "./shared";
+
+describe("ListMultimap", () => {
+    it("should keep keys sorted and values in put order", () => {
+        const multimap = new ListMultimap<string, number>([
+            ["b", 2],
+            ["a", 1],
+            ["b", 1],
+            ["b", 2],
+        ]);
+        expect(Array.from(multimap.entries())).toEqual([
+            ["a", 1],
+            ["b", 2],
+            ["b", 1],
+            ["b", 2],
+        ]);
+        expect(multimap.size).toBe(4);
+        expect(multimap.keyCount).toBe(2);
+    });
+
+    it("should use the key equality and comparator", () => {
+        const multimap = new ListMultimap<string, number>(
+            undefined,
+            caseInsensitive,
+            reversed(localeCompare(undefined, { sensitivity: "base" })),
+        );
+        multimap.put("a", 1);
+        multimap.put("A", 2);
+        multimap.put("b", 3);
+        expect(Array.from(multimap.keys())).toEqual(["b", "a"]);
+        expect(multimap.get("A").toArray()).toEqual([1, 2]);
+    });
+
+    it("should remove one occurrence and drop keys left empty", () => {
+        const multimap = new ListMultimap<string, number>();
+        multimap.putAll("a", [1, 2, 1]);
+        expect(multimap.removeValue("a", 1)).toBe(true);
+        expect(multimap.get("a").toArray()).toEqual([2, 1]);
+        expect(multimap.removeValue("a", 3)).toBe(false);
+        multimap.removeValue("a", 2);
+        multimap.removeValue("a", 1);
+        expect(multimap.has("a")).toBe(false);
+        expect(multimap.keyCount).toBe(0);
+        expect(multimap.size).toBe(0);
+    });
+
+    it("should return the values removed with a key", () => {
+        const multimap = new ListMultimap<string, number>([
+            ["a", 1],
+            ["a", 2],
+            ["b", 3],
+        ]);
+        expect(multimap.removeAll("a")).toEqual([1, 2]);
+        expect(multimap.removeAll("a")).toEqual([]);
+        expect(multimap.size).toBe(1);
+    });
+
+    it("should give a live view of the values under a key", () => {
+        const multimap = new ListMultimap<string, number>();
+        const view = multimap.get("a");
+        expect(view.size).toBe(0);
+        view.add(1).add(2);
+        expect(multimap.size).toBe(2);
+        multimap.put("a", 3);
+        expect(view.toArray()).toEqual([1, 2, 3]);
+        expect(view.at(-1)).toBe(3);
+        expect(view.indexOf(2)).toBe(1);
+        view.clear();
+        expect(multimap.has("a")).toBe(false);
+        expect(view.has(1)).toBe(false);
+    });
+
+    it("should expose a read-only map", () => {
+        const multimap = new ListMultimap<string, number>([
+            ["b", 2],
+            ["a", 1],
+        ]);
+        expect(Array.from(multimap.asMap())).toEqual([
+            ["a", [1]],
+            ["b", [2]],
+        ]);
+        const map = multimap.asMap();
+        (map.get("a") as number[]).push(3);
+        expect(multimap.size).toBe(2);
+        expect(Array.from(multimap.get("a"))).toEqual([1]);
+        expect("set" in map).toBe(false);
+        multimap.put("c", 3);
+        expect(map.size).toBe(3);
+        expect(map.get("c")).toEqual([3]);
+    });
+});
+
+describe("SetMultimap", () => {
+    it("should ignore values already under a key", () => {
+        const multimap = new SetMultimap<string, number>();
+        expect(multimap.put("a", 1)).toBe(true);
+        expect(multimap.put("a", 1)).toBe(false);
+        expect(multimap.putAll("a", [1, 2])).toBe(true);
+        expect(multimap.putAll("a", [2])).toBe(false);
+        expect(multimap.size).toBe(2);
+        expect(Array.from(multimap)).toEqual([
+            ["a", 1],
+            ["a", 2],
+        ]);
+    });
+
+    it("should compare values with a custom equality", () => {
+        const multimap = new SetMultimap<number, string>(
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            caseInsensitive,
+        );
+        multimap.putAll(1, ["x", "X", "y"]);
+        expect(Array.from(multimap.get(1))).toEqual(["x", "y"]);
+        expect(multimap.hasEntry(1, "Y")).toBe(true);
+        const values = multimap.asMap().get(1) as Set<string>;
+        expect(values.has("X")).toBe(true);
+        values.add("z");
+        expect(multimap.size).toBe(2);
+        expect(multimap.removeValue(1, "X")).toBe(true);
+        expect(multimap.size).toBe(1);
+    });
+
+    it("should compare values that implement Eq", () => {
+        class Point {
+            constructor(
+                readonly x: number,
+                readonly y: number,
+            ) {}
+            eq(other: Point) {
+                return this.x === other.x && this.y === other.y;
+            }
+            hash() {
+                return this.x * 31 + this.y;
+            }
+        }
+        const multimap = new SetMultimap<string, Point>();
+        multimap.put("p", new Point(1, 2));
+        multimap.put("p", new Point(1, 2));
+        expect(multimap.count("p")).toBe(1);
+    });
+
+    it("should give a live view of the values under a key", () => {
+        const multimap = new SetMultimap<string, number>([["a", 1]]);
+        const view = multimap.get("a");
+        multimap.put("a", 2);
+        expect(view.size).toBe(2);
+        expect(view.has(2)).toBe(true);
+        view.delete(1);
+        view.delete(2);
+        expect(multimap.has("a")).toBe(false);
+        view.add(3);
+        expect(Array.from(multimap.values())).toEqual([3]);
+    });
+
+    it("should clear every key", () => {
+        const multimap = new SetMultimap<string, number>([
+            ["a", 1],
+            ["b", 2],
+        ]);
+        multimap.clear();
+        expect(multimap.isEmpty()).toBe(true);
+        expect(multimap.keyCount).toBe(0);
+    });
+});
@@ -0,0 +1,248 @@
+import { mapIterator } from "./iteration";
+import { OrderedMap } from "./OrderedMap";
+import type { HashCode } from "./shared";
+
+export interface Multimap<K, V> extends Iterable<[K, V]> {
+    /**
+     * Adds a value under the given key.
+     * @returns true if the multimap changed
+     */
+    put(key: K, value: V): boolean;
+
+    /**
+     * Adds each of the given values under the given key.
+     * @returns true if the multimap changed
+     */
+    putAll(key: K, values: Iterable<V>): boolean;
+
+    /**
+     * Returns a live view of the values under the given key, empty if there are none. Writes to
+     * the view go through to the multimap.
+     */
+    get(key: K): Iterable<V>;
+
+    /**
+     * Returns true if there is at least one value under the given key.
+     */
+    has(key: K): boolean;
+
+    /**
+     * Returns true if the given value is under the given key.
+     */
+    hasEntry(key: K, value: V): boolean;
+
+    /**
+     * Removes one occurrence of the given value from under the given key, and the key with its
+     * last value.
+     * @returns true if the value was found
+     */
+    removeValue(key: K, value: V): boolean;
+
+    /**
+     * Removes the given key and all of its values.
+     * @returns the removed values
+     */
+    removeAll(key: K): Array<V>;
+
+    clear(): void;
+
+    /**
+     * The number of distinct keys.
+     */
+    readonly keyCount: number;
+
+    /**
+     * The number of values under all keys.
+     */
+    readonly size: number;
+
+    keys(): IterableIterator<K>;
+
+    values(): IterableIterator<V>;
+
+    /**
+     * Iterates every key and value pair, in key order.
+     */
+    entries(): IterableIterator<[K, V]>;
+
+    /**
+     * Returns a live, read-only view of the keys, mapping each to a copy of its values as they
+     * are when read.
+     */
+    asMap(): ReadonlyMap<K, Iterable<V>>;
+}
+
+/**
+ * Base for Multimap implementations. Keys are kept sorted in an OrderedMap; subclasses supply the
+ * collection that holds the values under each key. Keys never map to an empty collection.
+ */
+export abstract class AbstractMultimap<K, V, C extends Iterable<V>> implements Multimap<K, V> {
+    protected readonly map: OrderedMap<K, C>;
+    private total = 0;
+
+    constructor(
+        equalityFn?: (a: K, b: K) => boolean,
+        comparatorFn?: (a: K, b: K) => number,
+        hashFn?: (key: K) => HashCode,
+    ) {
+        this.map = new OrderedMap(undefined, equalityFn, comparatorFn, hashFn);
+    }
+
+    protected abstract createValues(): C;
+    protected abstract addValue(values: C, value: V): boolean;
+    protected abstract deleteValue(values: C, value: V): boolean;
+    protected abstract hasValue(values: C, value: V): boolean;
+    protected abstract countValues(values: C): number;
+
+    abstract get(key: K): Iterable<V>;
+
+    put(key: K, value: V): boolean {
+        let values = this.map.get(key);
+        if (values === undefined) {
+            values = this.createValues();
+            this.map.set(key, values);
+        }
+        const added = this.addValue(values, value);
+        if (added) {
+            this.total++;
+        }
+        return added;
+    }
+
+    putAll(key: K, values: Iterable<V>): boolean {
+        let changed = false;
+        for (const value of values) {
+            changed = this.put(key, value) || changed;
+        }
+        return changed;
+    }
+
+    has(key: K): boolean {
+        return this.map.has(key);
+    }
+
+    hasEntry(key: K, value: V): boolean {
+        const values = this.map.get(key);
+        return values !== undefined && this.hasValue(values, value);
+    }
+
+    /**
+     * Returns the number of values under the given key.
+     */
+    count(key: K): number {
+        const values = this.map.get(key);
+        return values !== undefined ? this.countValues(values) : 0;
+    }
+
+    removeValue(key: K, value: V): boolean {
+        const values = this.map.get(key);
+        if (values === undefined || !this.deleteValue(values, value)) {
+            return false;
+        }
+        this.total--;
+        if (this.countValues(values) === 0) {
+            this.map.delete(key);
+        }
+        return true;
+    }
+
+    removeAll(key: K): Array<V> {
+        const values = this.map.get(key);
+        if (values === undefined) {
+            return [];
+        }
+        this.map.delete(key);
+        this.total -= this.countValues(values);
+        return Array.from(values);
+    }
+
+    clear(): void {
+        this.map.clear();
+        this.total = 0;
+    }
+
+    get keyCount(): number {
+        return this.map.size;
+    }
+
+    get size(): number {
+        return this.total;
+    }
+
+    isEmpty(): boolean {
+        return this.total === 0;
+    }
+
+    keys(): IterableIterator<K> {
+        return this.map.keys();
+    }
+
+    *values(): IterableIterator<V> {
+        for (const [_, value] of this.entries()) {
+            yield value;
+        }
+    }
+
+    *entries(): IterableIterator<[K, V]> {
+        for (const [key, values] of this.map.entries()) {
+            for (const value of Array.from(values)) {
+                yield [key, value];
+            }
+        }
+    }
+
+    [Symbol.iterator](): IterableIterator<[K, V]> {
+        return this.entries();
+    }
+
+    asMap(): ReadonlyMap<K, Iterable<V>> {
+        return new MultimapView(this.map, (values) => Array.from(values));
+    }
+}
+
+/**
+ * Reads through to the map of a multimap without exposing it, or the collections it holds, to
+ * changes that would put the multimap's counts out of step. Values are handed out as the copies
+ * `copy` makes.
+ */
+export class MultimapView<K, C, R> implements ReadonlyMap<K, R> {
+    constructor(
+        private map: ReadonlyMap<K, C>,
+        private copy: (values: C) => R,
+    ) {}
+
+    get size(): number {
+        return this.map.size;
+    }
+
+    get(key: K): R | undefined {
+        const values = this.map.get(key);
+        return values !== undefined ? this.copy(values) : undefined;
+    }
+
+    has(key: K): boolean {
+        return this.map.has(key);
+    }
+
+    forEach(fn: (values: R, key: K, map: ReadonlyMap<K, R>) => void, thisArg?: unknown): void {
+        for (const [key, values] of this.entries()) {
+            fn.call(thisArg, values, key, this);
+        }
+    }
+
+    keys(): IterableIterator<K> {
+        return this.map.keys();
+    }
+
+    values(): IterableIterator<R> {
+        return mapIterator(this.map.values(), this.copy);
+    }
+
+    entries(): IterableIterator<[K, R]> {
+        return mapIterator(this.map.entries(), ([key, values]): [K, R] => [key, this.copy(values)]);
+    }
+
+    [Symbol.iterator](): IterableIterator<[K, R]> {
+        return this.entries();
+    }
+}
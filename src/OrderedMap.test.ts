@@ -217,8 +217,8 @@ describe("OrderedMap", () => {
                     return this.value < other.value
                         ? Ordering.Less
                         : this.value > other.value
-                        ? Ordering.Greater
-                        : Ordering.Equal;
+                          ? Ordering.Greater
+                          : Ordering.Equal;
                 }
             }
 
@@ -256,3 +256,412 @@ describe("OrderedMap", () => {
         });
     });
 });
+
+describe("OrderedMap hashing", () => {
+    class Key {
+        constructor(public id: number) {}
+
+        eq(other: Key): boolean {
+            return this.id === other.id;
+        }
+
+        hash(): number {
+            return this.id;
+        }
+
+        cmp(other: Key): Ordering {
+            return this.id < other.id
+                ? Ordering.Less
+                : this.id > other.id
+                  ? Ordering.Greater
+                  : Ordering.Equal;
+        }
+    }
+
+    it("should find Hash implementers by hash and eq", () => {
+        const map = new OrderedMap<Key, number>();
+        for (let i = 0; i < 1000; i++) {
+            map.set(new Key(i), i);
+        }
+        expect(map.get(new Key(500))).toBe(500);
+        expect(map.delete(new Key(500))).toBe(true);
+        expect(map.has(new Key(500))).toBe(false);
+        expect(map.size).toBe(999);
+    });
+
+    it("should resolve hash collisions with the equality function", () => {
+        const map = new OrderedMap<string, number>(
+            undefined,
+            (a, b) => a.toLowerCase() === b.toLowerCase(),
+            undefined,
+            (key) => key.length,
+        );
+        map.set("ab", 1);
+        map.set("cd", 2);
+        map.set("AB", 3);
+        expect(map.size).toBe(2);
+        expect(map.get("Ab")).toBe(3);
+        expect(map.get("cD")).toBe(2);
+        map.delete("aB");
+        expect(map.get("cd")).toBe(2);
+        expect(Array.from(map.keys())).toEqual(["cd"]);
+    });
+
+    it("should keep the first key it was given", () => {
+        const map = new OrderedMap<Key, string>();
+        const first = new Key(1);
+        map.set(first, "a");
+        map.set(new Key(1), "b");
+        expect(Array.from(map.keys())[0]).toBe(first);
+        expect(map.get(new Key(1))).toBe("b");
+    });
+
+    it("should find array keys by identity after they are mutated", () => {
+        const key = [1, 2];
+        const map = new OrderedMap<number[], string>([[key, "a"]], undefined, () => 0);
+        key.push(3);
+        expect(map.get(key)).toBe("a");
+        expect(map.has(key)).toBe(true);
+        expect(map.get([1, 2, 3])).toBeUndefined();
+        const cyclic: unknown[] = [];
+        cyclic.push(cyclic);
+        const cyclicKeys = new OrderedMap<unknown[], string>([[cyclic, "b"]], undefined, () => 0);
+        expect(cyclicKeys.get(cyclic)).toBe("b");
+    });
+
+    it("should find Eq keys without a hash among hashed ones", () => {
+        class Tag {
+            constructor(public id: number) {}
+
+            eq(other: unknown): boolean {
+                return other instanceof Tag && other.id === this.id;
+            }
+        }
+        const idOf = (key: Tag | number) => (typeof key === "number" ? key : key.id);
+        const map = new OrderedMap<Tag | number, string>(
+            [
+                [1, "one"],
+                [new Tag(2), "two"],
+                [new Tag(3), "three"],
+            ],
+            undefined,
+            (a, b) => idOf(a) - idOf(b),
+        );
+        expect(map.get(1)).toBe("one");
+        expect(map.get(new Tag(2))).toBe("two");
+        expect(map.get(new Tag(1))).toBeUndefined();
+        expect(map.delete(new Tag(2))).toBe(true);
+        expect(map.has(new Tag(2))).toBe(false);
+        expect(map.get(new Tag(3))).toBe("three");
+    });
+});
+
+describe("OrderedMap navigation", () => {
+    let map: OrderedMap<number, string>;
+
+    beforeEach(() => {
+        map = new OrderedMap<number, string>([
+            [10, "ten"],
+            [30, "thirty"],
+            [20, "twenty"],
+        ]);
+    });
+
+    it("should find floor keys and entries", () => {
+        expect(map.floorKey(20)).toBe(20);
+        expect(map.floorKey(25)).toBe(20);
+        expect(map.floorKey(5)).toBeUndefined();
+        expect(map.floorEntry(100)).toEqual([30, "thirty"]);
+    });
+
+    it("should find ceiling keys and entries", () => {
+        expect(map.ceilingKey(20)).toBe(20);
+        expect(map.ceilingKey(15)).toBe(20);
+        expect(map.ceilingKey(31)).toBeUndefined();
+        expect(map.ceilingEntry(0)).toEqual([10, "ten"]);
+    });
+
+    it("should find strictly lower and higher keys", () => {
+        expect(map.lowerKey(20)).toBe(10);
+        expect(map.lowerKey(10)).toBeUndefined();
+        expect(map.lowerEntry(21)).toEqual([20, "twenty"]);
+        expect(map.higherKey(20)).toBe(30);
+        expect(map.higherKey(30)).toBeUndefined();
+        expect(map.higherEntry(19)).toEqual([20, "twenty"]);
+    });
+
+    it("should return the first and last entries", () => {
+        expect(map.firstKey()).toBe(10);
+        expect(map.lastKey()).toBe(30);
+        expect(map.firstEntry()).toEqual([10, "ten"]);
+        expect(map.lastEntry()).toEqual([30, "thirty"]);
+        expect(new OrderedMap().firstEntry()).toBeUndefined();
+    });
+
+    it("should poll the first and last entries", () => {
+        expect(map.pollFirstEntry()).toEqual([10, "ten"]);
+        expect(map.pollLastEntry()).toEqual([30, "thirty"]);
+        expect(Array.from(map.keys())).toEqual([20]);
+        map.clear();
+        expect(map.pollFirstEntry()).toBeUndefined();
+    });
+
+    it("should navigate by the custom comparator", () => {
+        const reversed = new OrderedMap<number, string>(
+            [
+                [1, "one"],
+                [3, "three"],
+            ],
+            undefined,
+            (a, b) => b - a,
+        );
+        expect(reversed.firstKey()).toBe(3);
+        expect(reversed.floorKey(2)).toBe(3);
+        expect(reversed.ceilingKey(2)).toBe(1);
+    });
+
+    it("should reflect later writes", () => {
+        map.set(25, "twenty-five");
+        expect(map.floorKey(27)).toBe(25);
+        map.delete(25);
+        expect(map.floorKey(27)).toBe(20);
+    });
+});
+
+describe("OrderedMap range views", () => {
+    let map: OrderedMap<number, string>;
+
+    beforeEach(() => {
+        map = new OrderedMap<number, string>([
+            [10, "ten"],
+            [20, "twenty"],
+            [30, "thirty"],
+            [40, "forty"],
+        ]);
+    });
+
+    it("should expose entries in range", () => {
+        const view = map.subMap(20, 40);
+        expect(Array.from(view)).toEqual([
+            [20, "twenty"],
+            [30, "thirty"],
+        ]);
+        expect(view.size).toBe(2);
+        expect(view.get(30)).toBe("thirty");
+        expect(view.get(40)).toBeUndefined();
+        expect(Array.from(map.headMap(20, true).keys())).toEqual([10, 20]);
+        expect(Array.from(map.tailMap(30, false).values())).toEqual(["forty"]);
+    });
+
+    it("should reflect later changes to the map", () => {
+        const view = map.tailMap(25);
+        map.set(35, "thirty-five");
+        map.set(30, "THIRTY");
+        map.delete(40);
+        expect(Array.from(view)).toEqual([
+            [30, "THIRTY"],
+            [35, "thirty-five"],
+        ]);
+    });
+
+    it("should write through to the map and reject keys outside the range", () => {
+        const view = map.subMap(15, 35);
+        view.set(25, "twenty-five");
+        expect(map.get(25)).toBe("twenty-five");
+        expect(() => view.set(5, "five")).toThrow(RangeError);
+        expect(map.has(5)).toBe(false);
+        expect(view.delete(10)).toBe(false);
+        view.clear();
+        expect(Array.from(map.keys())).toEqual([10, 40]);
+    });
+});
+
+describe("OrderedMap as a key", () => {
+    it("should compare and hash by entries", () => {
+        const a = new OrderedMap([
+            ["x", 1],
+            ["y", 2],
+        ]);
+        const b = new OrderedMap([
+            ["y", 2],
+            ["x", 1],
+        ]);
+        expect(a.eq(b)).toBe(true);
+        expect(a.hash()).toBe(b.hash());
+        expect(a.cmp(b)).toBe(Ordering.Equal);
+        expect(
+            a.eq(
+                new OrderedMap([
+                    ["x", 1],
+                    ["y", 3],
+                ]),
+            ),
+        ).toBe(false);
+        expect(
+            a.cmp(
+                new OrderedMap([
+                    ["x", 1],
+                    ["y", 3],
+                ]),
+            ),
+        ).toBe(Ordering.Less);
+        expect(
+            a.cmp(
+                new Map([
+                    ["x", 1],
+                    ["z", 0],
+                ]),
+            ),
+        ).toBe(Ordering.Less);
+        expect(a.cmp(new Map([["x", 1]]))).toBe(Ordering.Greater);
+    });
+
+    it("should recompute its cached hash after a value changes", () => {
+        const map = new OrderedMap([["x", 1]]);
+        const before = map.hash();
+        map.set("x", 2);
+        expect(map.hash()).not.toBe(before);
+        map.set("x", 1);
+        expect(map.hash()).toBe(before);
+    });
+
+    it("should dedupe nested maps", () => {
+        const maps = new OrderedMap<OrderedMap<string, number>, string>();
+        maps.set(new OrderedMap([["a", 1]]), "first");
+        maps.set(new OrderedMap([["a", 1]]), "second");
+        maps.set(new OrderedMap([["a", 0]]), "third");
+        expect(Array.from(maps.values())).toEqual(["third", "second"]);
+    });
+});
+
+describe("OrderedMap positions", () => {
+    it("should find entries by position and keys by rank", () => {
+        const map = new OrderedMap<string, number>([
+            ["d", 4],
+            ["a", 1],
+            ["c", 3],
+            ["b", 2],
+        ]);
+        expect(map.at(1)).toEqual(["b", 2]);
+        expect(map.at(-1)).toEqual(["d", 4]);
+        expect(map.at(-5)).toBeUndefined();
+        expect(map.indexOf("c")).toBe(2);
+        expect(map.indexOf("e")).toBe(-1);
+        expect(map.rank("bb")).toBe(2);
+        expect(Array.from(map.slice(1, 3))).toEqual([
+            ["b", 2],
+            ["c", 3],
+        ]);
+        expect(map.countRange("b", "d")).toBe(2);
+        expect(map.countRange("b", "d", { hiInclusive: true })).toBe(3);
+        map.delete("a");
+        map.set("e", 5);
+        expect(map.at(0)).toEqual(["b", 2]);
+        expect(map.indexOf("e")).toBe(3);
+    });
+});
+
+describe("OrderedMap bulk updates", () => {
+    it("should set many entries in one pass", () => {
+        const map = new OrderedMap([
+            ["c", 3],
+            ["a", 1],
+        ]);
+        map.setAll([
+            ["d", 4],
+            ["b", 2],
+            ["a", 10],
+            ["d", 40],
+        ]);
+        expect(Array.from(map)).toEqual([
+            ["a", 10],
+            ["b", 2],
+            ["c", 3],
+            ["d", 40],
+        ]);
+        expect(map.firstKey()).toBe("a");
+        expect(map.indexOf("d")).toBe(3);
+    });
+
+    it("should keep the map consistent if the entries throw", () => {
+        const map = new OrderedMap([[2, "b"]]);
+        function* entries(): IterableIterator<[number, string]> {
+            yield [1, "a"];
+            throw new Error("failed");
+        }
+        expect(() => map.setAll(entries())).toThrow("failed");
+        expect(Array.from(map.keys())).toEqual([1, 2]);
+        map.validate();
+    });
+
+    it("should merge with a resolver for keys in both maps", () => {
+        const totals = new OrderedMap([
+            ["apples", 3],
+            ["pears", 1],
+        ]);
+        const conflicts: string[] = [];
+        totals.merge(
+            new OrderedMap([
+                ["pears", 2],
+                ["plums", 5],
+            ]),
+            (key, a, b) => {
+                conflicts.push(key);
+                return a + b;
+            },
+        );
+        expect(Array.from(totals)).toEqual([
+            ["apples", 3],
+            ["pears", 3],
+            ["plums", 5],
+        ]);
+        expect(conflicts).toEqual(["pears"]);
+    });
+
+    it("should upsert and compute values in place", () => {
+        const counts = new OrderedMap<string, number>();
+        for (const word of ["b", "a", "b"]) {
+            counts.upsert(
+                word,
+                (count) => count + 1,
+                () => 1,
+            );
+        }
+        expect(Array.from(counts)).toEqual([
+            ["a", 1],
+            ["b", 2],
+        ]);
+        expect(counts.compute("a", (count) => (count ?? 0) + 10)).toBe(11);
+        expect(counts.compute("c", (count, key) => (count === undefined ? key.length : 0))).toBe(1);
+        expect(counts.compute("b", () => undefined)).toBeUndefined();
+        expect(counts.compute("d", () => undefined)).toBeUndefined();
+        expect(Array.from(counts)).toEqual([
+            ["a", 11],
+            ["c", 1],
+        ]);
+    });
+
+    it("should group items by key", () => {
+        const words = ["pear", "fig", "apple", "kiwi", "plum"];
+        const byLength = OrderedMap.groupBy(words, (word) => word.length);
+        expect(Array.from(byLength)).toEqual([
+            [3, ["fig"]],
+            [4, ["pear", "kiwi", "plum"]],
+            [5, ["apple"]],
+        ]);
+        const counts = OrderedMap.groupBy(
+            words,
+            (word) => word[0]!,
+            (count: number | undefined) => (count ?? 0) + 1,
+            undefined,
+            (a, b) => b.localeCompare(a),
+        );
+        expect(Array.from(counts)).toEqual([
+            ["p", 2],
+            ["k", 1],
+            ["f", 1],
+            ["a", 1],
+        ]);
+        expect(Array.from(OrderedMap.groupBy(words, (_, i) => i % 2).keys())).toEqual([0, 1]);
+    });
+});
@@ -1,37 +1,125 @@
-import { defaultEqualityFn, defaultComparatorFn } from "./shared";
+import { HashIndex, resolveHashFn } from "./HashIndex";
+import {
+    decode,
+    FORMAT_VERSION,
+    readSerialized,
+    type EntryCodec,
+    type SerializedOrderedMap,
+} from "./json";
+import { Cursor } from "./Cursor";
+import { mapIterator, ModificationCounter } from "./iteration";
+import { ChangeNotifier, type ChangeListener, type MapChange } from "./observable";
+import type { CollectionOptions } from "./options";
+import { OrderedMapView } from "./OrderedMapView";
+import { Bounds, SortedTree, type Bound, type RangeOptions } from "./SortedTree";
+import { resolveViolationHandler, throwOnViolation, Validator } from "./validation";
+import {
+    collectionKind,
+    combineHash,
+    compareKinds,
+    comparing,
+    defaultEqualityFn,
+    defaultComparatorFn,
+    defaultHashFn,
+    lexicographic,
+    thenComparing,
+    unorderedHash,
+    type Cmp,
+    type Hash,
+    type HashCode,
+    Ordering,
+} from "./shared";
 
-export class OrderedMap<K, V> extends Map<K, V> {
+export class OrderedMap<K, V>
+    extends Map<K, V>
+    implements Hash<OrderedMap<K, V>>, Cmp<OrderedMap<K, V>>
+{
     private equalityFn: (a: K, b: K) => boolean;
-    private comparatorFn: (a: K, b: K) => number;
+    readonly comparatorFn: (a: K, b: K) => number;
+    private hashFn: (value: K) => HashCode;
+    private index: HashIndex<K>;
+    private tree: SortedTree<K>;
+    private validator?: Validator<K>;
+    private modifications: ModificationCounter;
     private _sortedEntries?: Array<[K, V]>;
+    private _hash?: number;
+    private notifier?: ChangeNotifier<MapChange<K, V>>;
 
+    /**
+     * Keys are looked up by hash, then by `equalityFn` within a bucket. A custom `equalityFn`
+     * should come with a matching `hashFn`, otherwise every lookup scans all keys.
+     * See CollectionOptions for `options`.
+     */
     constructor(
         entries?: Iterable<[K, V]>,
         equalityFn?: (a: K, b: K) => boolean,
         comparatorFn?: (a: K, b: K) => number,
+        hashFn?: (key: K) => HashCode,
+        options: CollectionOptions = {},
     ) {
         super();
         this.equalityFn = equalityFn ?? defaultEqualityFn;
         this.comparatorFn = comparatorFn ?? defaultComparatorFn;
+        this.hashFn = resolveHashFn(equalityFn, hashFn);
+        this.index = new HashIndex(this.hashFn, this.equalityFn);
+        this.tree = new SortedTree(this.comparatorFn);
+        this.modifications = new ModificationCounter(options.iteration ?? "snapshot");
+        const handler = resolveViolationHandler(options.validate);
+        if (handler !== undefined) {
+            this.validator = new Validator(
+                this,
+                handler,
+                this.equalityFn,
+                this.comparatorFn,
+                this.hashFn,
+            );
+        }
         if (entries) {
-            for (const [key, value] of entries) {
-                this.set(key, value);
-            }
+            this.setAll(entries);
         }
     }
 
     private findKey(key: K): K | undefined {
-        for (const existingKey of super.keys()) {
-            if (this.equalityFn(existingKey, key)) {
-                return existingKey;
-            }
+        const existing = this.index.find(key);
+        if (existing !== undefined) {
+            this.validator?.checkFound(existing, key);
         }
-        return undefined;
+        return existing;
+    }
+
+    private checkInsert(key: K): void {
+        const tree = this.tree;
+        this.validator!.checkInsert(key, [
+            tree.floor(key),
+            tree.ceiling(key, false),
+            tree.first(),
+            tree.last(),
+        ]);
     }
 
     set(key: K, value: V): this {
         this.invalidate();
-        return super.set(this.findKey(key) ?? key, value);
+        const existingKey = this.findKey(key);
+        if (existingKey === undefined) {
+            if (this.validator !== undefined) {
+                this.checkInsert(key);
+            }
+            this.index.add(key);
+            this.tree.insert(key);
+            this.modifications.increment();
+            super.set(key, value);
+            if (this.notifier?.active) {
+                this.notifier.emit({ type: "added", key, value, index: this.tree.indexOf(key) });
+            }
+        } else {
+            const oldValue = super.get(existingKey) as V;
+            super.set(existingKey, value);
+            if (this.notifier?.active) {
+                const index = this.tree.indexOf(existingKey);
+                this.notifier.emit({ type: "updated", key: existingKey, oldValue, value, index });
+            }
+        }
+        return this;
     }
 
     get(key: K): V | undefined {
@@ -44,51 +132,471 @@ export class OrderedMap<K, V> extends Map<K, V> {
     }
 
     delete(key: K): boolean {
-        const existingKey = this.findKey(key);
+        const existingKey = this.index.delete(key);
         if (existingKey !== undefined) {
+            this.validator?.checkFound(existingKey, key);
+            this.validator?.forget(existingKey);
             this.invalidate();
-            return super.delete(existingKey);
+            const index = this.notifier?.active ? this.tree.indexOf(existingKey) : -1;
+            const value = super.get(existingKey) as V;
+            this.tree.delete(existingKey);
+            this.modifications.increment();
+            super.delete(existingKey);
+            if (index !== -1) {
+                this.notifier!.emit({ type: "removed", key: existingKey, value, index });
+            }
+            return true;
         }
         return false;
     }
 
+    /**
+     * Sets many entries at once; a later entry wins over an earlier one with the same key. New
+     * keys are sorted together and merged into the map's order in one pass, rather than inserted
+     * one by one.
+     */
+    setAll(entries: Iterable<[K, V]>): this {
+        if (this.validator !== undefined || this.notifier?.active) {
+            // Validation and change records both look at each key's place as it goes in.
+            return this.batch(() => {
+                for (const [key, value] of entries) {
+                    this.set(key, value);
+                }
+                return this;
+            });
+        }
+        const added: Array<K> = [];
+        try {
+            for (const [key, value] of entries) {
+                const existingKey = this.index.find(key);
+                if (existingKey === undefined) {
+                    this.index.add(key);
+                    added.push(key);
+                    super.set(key, value);
+                } else {
+                    super.set(existingKey, value);
+                }
+            }
+        } finally {
+            // Keeps the tree in step with the index if the entries throw part way.
+            if (added.length > 0) {
+                this.tree.insertSorted(added.sort(this.comparatorFn));
+                this.modifications.increment();
+            }
+            this.invalidate();
+        }
+        return this;
+    }
+
+    /**
+     * Sets the entries of the other map or entry list, calling `resolve` for keys this map
+     * already has, with this map's key and both values, to pick the value to keep.
+     */
+    merge(other: Iterable<[K, V]>, resolve: (key: K, a: V, b: V) => V): this {
+        return this.setAll(
+            mapIterator(other[Symbol.iterator](), ([key, value]): [K, V] => {
+                const existingKey = this.findKey(key);
+                return existingKey === undefined
+                    ? [key, value]
+                    : [key, resolve(existingKey, super.get(existingKey) as V, value)];
+            }),
+        );
+    }
+
+    /**
+     * Sets the key to `update` of its current value, or to `insert` if it has none.
+     * @returns the value set
+     */
+    upsert(key: K, update: (value: V, key: K) => V, insert: (key: K) => V): V {
+        const existingKey = this.findKey(key);
+        const value =
+            existingKey !== undefined
+                ? update(super.get(existingKey) as V, existingKey)
+                : insert(key);
+        this.set(key, value);
+        return value;
+    }
+
+    /**
+     * Sets the key to what `fn` returns for its current value, or undefined if it has none. If
+     * `fn` returns undefined, the key is removed instead.
+     * @returns the value set, or undefined if the key was removed or left out
+     */
+    compute(key: K, fn: (value: V | undefined, key: K) => V | undefined): V | undefined {
+        const existingKey = this.findKey(key);
+        const value = fn(
+            existingKey !== undefined ? super.get(existingKey) : undefined,
+            existingKey ?? key,
+        );
+        if (value !== undefined) {
+            this.set(key, value);
+        } else {
+            this.delete(key);
+        }
+        return value;
+    }
+
+    /**
+     * Returns the first (lowest) key, or undefined if the map is empty.
+     */
+    firstKey(): K | undefined {
+        return this.tree.first();
+    }
+
+    /**
+     * Returns the last (highest) key, or undefined if the map is empty.
+     */
+    lastKey(): K | undefined {
+        return this.tree.last();
+    }
+
+    /**
+     * Returns the first (lowest) entry, or undefined if the map is empty.
+     */
+    firstEntry(): [K, V] | undefined {
+        return this.entryOf(this.tree.first());
+    }
+
+    /**
+     * Returns the last (highest) entry, or undefined if the map is empty.
+     */
+    lastEntry(): [K, V] | undefined {
+        return this.entryOf(this.tree.last());
+    }
+
+    /**
+     * Removes and returns the first (lowest) entry, or undefined if the map is empty.
+     */
+    pollFirstEntry(): [K, V] | undefined {
+        return this.poll(this.firstEntry());
+    }
+
+    /**
+     * Removes and returns the last (highest) entry, or undefined if the map is empty.
+     */
+    pollLastEntry(): [K, V] | undefined {
+        return this.poll(this.lastEntry());
+    }
+
+    /**
+     * Returns the greatest key less than or equal to the given key, by `comparatorFn`.
+     */
+    floorKey(key: K): K | undefined {
+        return this.tree.floor(key);
+    }
+
+    /**
+     * Returns the entry with the greatest key less than or equal to the given key.
+     */
+    floorEntry(key: K): [K, V] | undefined {
+        return this.entryOf(this.tree.floor(key));
+    }
+
+    /**
+     * Returns the least key greater than or equal to the given key, by `comparatorFn`.
+     */
+    ceilingKey(key: K): K | undefined {
+        return this.tree.ceiling(key);
+    }
+
+    /**
+     * Returns the entry with the least key greater than or equal to the given key.
+     */
+    ceilingEntry(key: K): [K, V] | undefined {
+        return this.entryOf(this.tree.ceiling(key));
+    }
+
+    /**
+     * Returns the greatest key strictly less than the given key, by `comparatorFn`.
+     */
+    lowerKey(key: K): K | undefined {
+        return this.tree.floor(key, false);
+    }
+
+    /**
+     * Returns the entry with the greatest key strictly less than the given key.
+     */
+    lowerEntry(key: K): [K, V] | undefined {
+        return this.entryOf(this.tree.floor(key, false));
+    }
+
+    /**
+     * Returns the least key strictly greater than the given key, by `comparatorFn`.
+     */
+    higherKey(key: K): K | undefined {
+        return this.tree.ceiling(key, false);
+    }
+
+    /**
+     * Returns the entry with the least key strictly greater than the given key.
+     */
+    higherEntry(key: K): [K, V] | undefined {
+        return this.entryOf(this.tree.ceiling(key, false));
+    }
+
+    /**
+     * Returns a live view of the entries with keys from lo to hi. By default lo is included and
+     * hi is not.
+     */
+    subMap(lo: K, hi: K, options: RangeOptions = {}): OrderedMapView<K, V> {
+        return this.view(
+            { value: lo, inclusive: options.loInclusive ?? true },
+            { value: hi, inclusive: options.hiInclusive ?? false },
+        );
+    }
+
+    /**
+     * Returns a live view of the entries with keys below hi, or up to it if inclusive.
+     */
+    headMap(hi: K, inclusive = false): OrderedMapView<K, V> {
+        return this.view(undefined, { value: hi, inclusive });
+    }
+
+    /**
+     * Returns a live view of the entries with keys from lo on, or above it if not inclusive.
+     */
+    tailMap(lo: K, inclusive = true): OrderedMapView<K, V> {
+        return this.view({ value: lo, inclusive }, undefined);
+    }
+
+    private view(lo?: Bound<K>, hi?: Bound<K>): OrderedMapView<K, V> {
+        return new OrderedMapView(this, this.tree, new Bounds(this.comparatorFn, lo, hi));
+    }
+
+    /**
+     * Returns the entry at the given position in key order; negative positions count back from
+     * the end. Returns undefined if the position is out of range. O(log n).
+     */
+    at(index: number): [K, V] | undefined {
+        const i = index < 0 ? index + this.size : index;
+        return Number.isInteger(i) ? this.entryOf(this.tree.at(i)) : undefined;
+    }
+
+    /**
+     * Returns the position in key order of the key equal to the given one by `equalityFn`, or -1
+     * if there is none. O(log n).
+     */
+    indexOf(key: K): number {
+        const existing = this.findKey(key);
+        return existing !== undefined ? this.tree.indexOf(existing) : -1;
+    }
+
+    /**
+     * Returns the number of keys that compare below the given one by `comparatorFn`, which is the
+     * position it has or would have in the map. O(log n).
+     */
+    rank(key: K): number {
+        return this.tree.count(
+            new Bounds(this.comparatorFn, undefined, { value: key, inclusive: false }),
+        );
+    }
+
+    /**
+     * Iterates the entries from start up to end in key order, treating negative and missing
+     * positions as `Array.prototype.slice` does. The entries are copied when this is called, in
+     * O(log n + k) for k entries.
+     */
+    slice(start?: number, end?: number): IterableIterator<[K, V]> {
+        return this.tree
+            .slice(start, end)
+            .map((key): [K, V] => [key, super.get(key) as V])
+            .values();
+    }
+
+    /**
+     * Returns the number of keys from lo to hi. By default lo is included and hi is not.
+     * O(log n).
+     */
+    countRange(lo: K, hi: K, options: RangeOptions = {}): number {
+        return this.tree.count(
+            new Bounds(
+                this.comparatorFn,
+                { value: lo, inclusive: options.loInclusive ?? true },
+                { value: hi, inclusive: options.hiInclusive ?? false },
+            ),
+        );
+    }
+
+    /**
+     * Checks every key: that keys are still in order, still hash as they did when they were
+     * inserted, and can still be found. Violations go to the handler from the `validate` option,
+     * or are thrown if validation is off.
+     */
+    validate(): void {
+        const validator =
+            this.validator ??
+            new Validator(this, throwOnViolation, this.equalityFn, this.comparatorFn, this.hashFn);
+        validator.checkAll(this.tree.values(), (key) => this.index.find(key));
+    }
+
+    /**
+     * Returns true if the other map has the same keys, by this map's equality, with values equal
+     * by `defaultEqualityFn`. Sets and bags are never equal to a map.
+     */
+    eq(other: ReadonlyMap<unknown, unknown>): boolean {
+        if (collectionKind(other) !== "map" || this.size !== other.size) {
+            return false;
+        }
+        for (const [key, value] of other.entries()) {
+            const existing = this.findKey(key as K);
+            if (existing === undefined || !defaultEqualityFn(super.get(existing), value)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Orders maps by their entries in key order, compared in turn by key with this map's
+     * comparator, then by value with `defaultComparatorFn`; a map whose entries are a prefix of
+     * the other's comes first. Maps come after sets and bags.
+     */
+    cmp(other: ReadonlyMap<unknown, unknown>): Ordering {
+        const kinds = compareKinds(this, other);
+        if (kinds !== Ordering.Equal) {
+            return kinds;
+        }
+        const byKey = comparing(([key]: [K, V]) => key, this.comparatorFn);
+        const entries =
+            other instanceof OrderedMap && other.comparatorFn === this.comparatorFn
+                ? (other.sortedEntries as Array<[K, V]>)
+                : Array.from(other.entries() as Iterable<[K, V]>).sort(byKey);
+        const byEntry = thenComparing(
+            byKey,
+            comparing(([_, value]) => value),
+        );
+        return lexicographic(byEntry)(this.sortedEntries, entries);
+    }
+
+    /**
+     * Hashes the entries, keys with this map's hash function and values with `defaultHashFn`,
+     * regardless of order, so that maps can be keys of other collections. The hash is cached
+     * until the next change; like any key hashed by contents, a map must not change while it is
+     * a key.
+     */
+    hash(): HashCode {
+        if (this._hash === undefined) {
+            this._hash = unorderedHash(this.sortedEntries, ([key, value]) =>
+                combineHash(combineHash(1, this.hashFn(key)), defaultHashFn(value)),
+            );
+        }
+        return this._hash;
+    }
+
+    private *liveEntries(): IterableIterator<[K, V]> {
+        for (let key = this.tree.first(); key !== undefined; key = this.tree.successor(key)) {
+            yield [key, super.get(key) as V];
+        }
+    }
+
+    private *liveReverseEntries(): IterableIterator<[K, V]> {
+        for (let key = this.tree.last(); key !== undefined; key = this.tree.predecessor(key)) {
+            yield [key, super.get(key) as V];
+        }
+    }
+
+    private entryOf(key: K | undefined): [K, V] | undefined {
+        return key !== undefined ? [key, super.get(key) as V] : undefined;
+    }
+
+    private poll(entry: [K, V] | undefined): [K, V] | undefined {
+        if (entry !== undefined) {
+            this.delete(entry[0]);
+        }
+        return entry;
+    }
+
     invalidate() {
         this._sortedEntries = undefined;
+        this._hash = undefined;
     }
 
     get sortedEntries() {
         if (this._sortedEntries === undefined) {
-            this._sortedEntries = Array.from(super.entries());
-            this._sortedEntries.sort(([a], [b]) => this.comparatorFn(a, b));
+            this._sortedEntries = Array.from(this.tree.values(), (key) => [
+                key,
+                super.get(key) as V,
+            ]);
         }
         return this._sortedEntries;
     }
 
     clear(): void {
+        const wasEmpty = this.size === 0;
         this.invalidate();
+        this.index.clear();
+        this.tree.clear();
+        this.validator?.clear();
+        this.modifications.increment();
         super.clear();
+        if (!wasEmpty && this.notifier?.active) {
+            this.notifier.emit({ type: "cleared" });
+        }
     }
 
-    *keys(): IterableIterator<K> {
-        for (const [k] of this.sortedEntries) {
-            yield k;
-        }
+    /**
+     * Calls the listener with the changes made to the map from now on, one call per operation or
+     * per `batch`. A listener that throws doesn't stop the change or the other listeners; its
+     * error goes to the handler set with `setListenerErrorHandler`.
+     * @returns a function that unsubscribes the listener, effective at once
+     */
+    subscribe(listener: ChangeListener<MapChange<K, V>>): () => void {
+        this.notifier ??= new ChangeNotifier();
+        return this.notifier.subscribe(listener);
     }
 
-    *values(): IterableIterator<V> {
-        for (const [_, v] of this.sortedEntries) {
-            yield v;
-        }
+    /**
+     * Runs the function and notifies listeners of the changes it makes all at once, when it
+     * returns or throws.
+     */
+    batch<R>(fn: () => R): R {
+        this.notifier ??= new ChangeNotifier();
+        return this.notifier.batch(fn);
     }
 
-    *entries(): IterableIterator<[K, V]> {
-        for (const entry of this.sortedEntries) {
-            yield entry;
-        }
+    keys(): IterableIterator<K> {
+        return mapIterator(this.entries(), ([k]) => k);
+    }
+
+    values(): IterableIterator<V> {
+        return mapIterator(this.entries(), ([_, v]) => v);
+    }
+
+    /**
+     * Iterates the entries in key order, following the `iteration` option when the map changes
+     * along the way.
+     */
+    entries(): IterableIterator<[K, V]> {
+        return this.modifications.iterate(
+            () => this.sortedEntries,
+            () => this.liveEntries(),
+        );
+    }
+
+    /**
+     * Iterates the entries in reverse key order, following the `iteration` option like
+     * `entries()`.
+     */
+    reverseEntries(): IterableIterator<[K, V]> {
+        return this.modifications.iterate(
+            () => this.sortedEntries.toReversed(),
+            () => this.liveReverseEntries(),
+        );
+    }
+
+    /**
+     * Returns a cursor over the entries, placed before the first one. It seeks by key.
+     */
+    cursor(): Cursor<K, [K, V]> {
+        return new Cursor(
+            this.tree,
+            (key): [K, V] => [key, super.get(key) as V],
+            (key) => this.delete(key),
+        );
     }
 
     forEach(fn: (value: V, key: K, map: this) => void): void {
-        for (const [k, v] of this.sortedEntries) {
+        for (const [k, v] of this.entries()) {
             fn(v, k, this);
         }
     }
@@ -96,4 +604,88 @@ export class OrderedMap<K, V> extends Map<K, V> {
     [Symbol.iterator](): IterableIterator<[K, V]> {
         return this.entries();
     }
+
+    /**
+     * Returns the JSON form of this map: its entries in order, tagged with the format version.
+     * Keys and values are left to `JSON.stringify`.
+     */
+    toJSON(): SerializedOrderedMap {
+        return {
+            "@type": "OrderedMap",
+            "version": FORMAT_VERSION,
+            "entries": Array.from(this.entries()),
+        };
+    }
+
+    /**
+     * Groups items by the key `keyFn` gives them, like `Map.groupBy`, in a map sorted by key.
+     * Without a reducer, each key maps to its items in the order they came; with one, to what the
+     * reducer folds them into, starting from undefined.
+     */
+    static groupBy<T, K>(
+        items: Iterable<T>,
+        keyFn: (item: T, index: number) => K,
+        reducer?: undefined,
+        equalityFn?: (a: K, b: K) => boolean,
+        comparatorFn?: (a: K, b: K) => number,
+        hashFn?: (key: K) => HashCode,
+    ): OrderedMap<K, T[]>;
+    static groupBy<T, K, V>(
+        items: Iterable<T>,
+        keyFn: (item: T, index: number) => K,
+        reducer: (group: V | undefined, item: T) => V,
+        equalityFn?: (a: K, b: K) => boolean,
+        comparatorFn?: (a: K, b: K) => number,
+        hashFn?: (key: K) => HashCode,
+    ): OrderedMap<K, V>;
+    static groupBy<T, K, V>(
+        items: Iterable<T>,
+        keyFn: (item: T, index: number) => K,
+        reducer?: (group: V | undefined, item: T) => V,
+        equalityFn?: (a: K, b: K) => boolean,
+        comparatorFn?: (a: K, b: K) => number,
+        hashFn?: (key: K) => HashCode,
+    ): OrderedMap<K, V | T[]> {
+        const groups = new OrderedMap<K, V | T[]>(undefined, equalityFn, comparatorFn, hashFn);
+        const reduce = (reducer ?? appendTo) as (group: V | T[] | undefined, item: T) => V | T[];
+        let index = 0;
+        for (const item of items) {
+            groups.upsert(
+                keyFn(item, index++),
+                (group) => reduce(group, item),
+                () => reduce(undefined, item),
+            );
+        }
+        return groups;
+    }
+
+    /**
+     * Rebuilds a map from its JSON form. Functions can't be serialized, so custom equality,
+     * comparator and hash functions must be passed again.
+     * @param json the JSON text or the parsed JSON form
+     * @param codec rebuilds keys and values, such as class instances, from their JSON form
+     */
+    static fromJSON<K, V>(
+        json: string | SerializedOrderedMap,
+        codec?: EntryCodec<K, V>,
+        equalityFn?: (a: K, b: K) => boolean,
+        comparatorFn?: (a: K, b: K) => number,
+        hashFn?: (key: K) => HashCode,
+    ): OrderedMap<K, V> {
+        const { entries } = readSerialized(json, "OrderedMap");
+        return new OrderedMap(
+            entries.map(([k, v]): [K, V] => [decode(codec?.key, k), decode(codec?.value, v)]),
+            equalityFn,
+            comparatorFn,
+            hashFn,
+        );
+    }
+}
+
+function appendTo<T>(group: T[] | undefined, item: T): T[] {
+    if (group === undefined) {
+        return [item];
+    }
+    group.push(item);
+    return group;
 }
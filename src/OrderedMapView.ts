@@ -0,0 +1,77 @@
+import type { OrderedMap } from "./OrderedMap";
+import type { Bounds, SortedTree } from "./SortedTree";
+
+/**
+ * A live view of the entries of an OrderedMap whose keys fall within a range. Reads reflect later
+ * changes to the map, and writes go through to it; setting a key outside the range throws a
+ * RangeError.
+ */
+export class OrderedMapView<K, V> {
+    constructor(
+        private parent: OrderedMap<K, V>,
+        private tree: SortedTree<K>,
+        private bounds: Bounds<K>,
+    ) {}
+
+    /**
+     * The number of entries in range, counted in O(log n) on every access.
+     */
+    get size(): number {
+        return this.tree.count(this.bounds);
+    }
+
+    has(key: K): boolean {
+        return this.bounds.contains(key) && this.parent.has(key);
+    }
+
+    get(key: K): V | undefined {
+        return this.bounds.contains(key) ? this.parent.get(key) : undefined;
+    }
+
+    set(key: K, value: V): this {
+        this.bounds.assertContains(key);
+        this.parent.set(key, value);
+        return this;
+    }
+
+    delete(key: K): boolean {
+        return this.bounds.contains(key) && this.parent.delete(key);
+    }
+
+    /**
+     * Removes the entries in range from the underlying map.
+     */
+    clear(): void {
+        for (const key of Array.from(this.tree.range(this.bounds))) {
+            this.parent.delete(key);
+        }
+    }
+
+    *keys(): IterableIterator<K> {
+        for (const key of Array.from(this.tree.range(this.bounds))) {
+            yield key;
+        }
+    }
+
+    *values(): IterableIterator<V> {
+        for (const [_, v] of this.entries()) {
+            yield v;
+        }
+    }
+
+    *entries(): IterableIterator<[K, V]> {
+        for (const key of this.keys()) {
+            yield [key, this.parent.get(key) as V];
+        }
+    }
+
+    forEach(fn: (value: V, key: K, map: this) => void): void {
+        for (const [k, v] of this.entries()) {
+            fn(v, k, this);
+        }
+    }
+
+    [Symbol.iterator](): IterableIterator<[K, V]> {
+        return this.entries();
+    }
+}
@@ -0,0 +1,311 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { OrderedMap } from "./OrderedMap";
+import { OrderedSet } from "./OrderedSet";
+import { caseInsensitive, localeCompare, Ordering } from "./shared";
+
+describe("OrderedSet range views", () => {
+    let set: OrderedSet<number>;
+
+    beforeEach(() => {
+        set = new OrderedSet([50, 10, 40, 20, 30]);
+    });
+
+    it("should include lo and exclude hi by default", () => {
+        const view = set.subSet(20, 40);
+        expect(Array.from(view)).toEqual([20, 30]);
+        expect(view.size).toBe(2);
+    });
+
+    it("should honor inclusiveness options", () => {
+        expect(Array.from(set.subSet(20, 40, { loInclusive: false, hiInclusive: true }))).toEqual([
+            30, 40,
+        ]);
+        expect(Array.from(set.headSet(30))).toEqual([10, 20]);
+        expect(Array.from(set.headSet(30, true))).toEqual([10, 20, 30]);
+        expect(Array.from(set.tailSet(30))).toEqual([30, 40, 50]);
+        expect(Array.from(set.tailSet(30, false))).toEqual([40, 50]);
+    });
+
+    it("should reflect later changes to the set", () => {
+        const view = set.subSet(15, 45);
+        set.add(25);
+        set.delete(40);
+        set.add(60);
+        expect(Array.from(view)).toEqual([20, 25, 30]);
+        expect(view.has(25)).toBe(true);
+        expect(view.has(60)).toBe(false);
+    });
+
+    it("should write through to the set", () => {
+        const view = set.subSet(15, 45);
+        view.add(35);
+        expect(set.has(35)).toBe(true);
+        expect(view.delete(20)).toBe(true);
+        expect(set.has(20)).toBe(false);
+        expect(view.delete(10)).toBe(false);
+        expect(set.has(10)).toBe(true);
+    });
+
+    it("should throw a RangeError when adding outside the range", () => {
+        const view = set.headSet(30);
+        expect(() => view.add(30)).toThrow(RangeError);
+        expect(() => view.add(99)).toThrow(RangeError);
+        expect(set.has(99)).toBe(false);
+    });
+
+    it("should clear only the elements in range", () => {
+        set.tailSet(30).clear();
+        expect(Array.from(set)).toEqual([10, 20]);
+    });
+
+    it("should reject a lower bound above the upper bound", () => {
+        expect(() => set.subSet(40, 20)).toThrow(RangeError);
+    });
+
+    it("should respect the custom comparator", () => {
+        const reversed = new OrderedSet([1, 2, 3, 4], undefined, (a, b) => b - a);
+        expect(Array.from(reversed.subSet(4, 2))).toEqual([4, 3]);
+        expect(Array.from(reversed.tailSet(2))).toEqual([2, 1]);
+    });
+});
+
+describe("OrderedSet set algebra", () => {
+    const caseInsensitive = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+    const byLowerCase = (a: string, b: string) => a.toLowerCase().localeCompare(b.toLowerCase());
+
+    it("should merge two compatible sets", () => {
+        const a = new OrderedSet([1, 3, 5, 7]);
+        const b = new OrderedSet([3, 4, 5, 6]);
+        expect(Array.from(a.union(b))).toEqual([1, 3, 4, 5, 6, 7]);
+        expect(Array.from(a.intersection(b))).toEqual([3, 5]);
+        expect(Array.from(a.difference(b))).toEqual([1, 7]);
+        expect(Array.from(a.symmetricDifference(b))).toEqual([1, 4, 6, 7]);
+    });
+
+    it("should return ordered sets that keep the receiver's functions", () => {
+        const a = new OrderedSet(["b", "A"], caseInsensitive, byLowerCase);
+        const result = a.union(new Set(["c", "a"]));
+        expect(result).toBeInstanceOf(OrderedSet);
+        expect(Array.from(result)).toEqual(["A", "b", "c"]);
+        result.add("B");
+        expect(result.size).toBe(3);
+    });
+
+    it("should decide membership by the receiver's equality", () => {
+        const a = new OrderedSet(["A", "b", "C"], caseInsensitive, byLowerCase);
+        const plain = new Set(["a", "c", "d"]);
+        expect(Array.from(a.intersection(plain))).toEqual(["A", "C"]);
+        expect(Array.from(a.difference(plain))).toEqual(["b"]);
+        expect(Array.from(a.symmetricDifference(plain))).toEqual(["b", "d"]);
+        expect(a.isSupersetOf(new Set(["a", "B"]))).toBe(true);
+        expect(a.isSubsetOf(new Set(["a", "B", "c", "x"]))).toBe(true);
+        expect(a.isSubsetOf(plain)).toBe(false);
+        expect(a.isDisjointFrom(new Set(["x", "y"]))).toBe(true);
+        expect(a.isDisjointFrom(new Set(["x", "B"]))).toBe(false);
+    });
+
+    it("should match equal elements within a run that compares equal", () => {
+        type Entry = { id: number; rank: number };
+        const eq = (x: Entry, y: Entry) => x.id === y.id;
+        const cmp = (x: Entry, y: Entry) => x.rank - y.rank;
+        const a = new OrderedSet<Entry>(
+            [
+                { id: 1, rank: 1 },
+                { id: 2, rank: 1 },
+            ],
+            eq,
+            cmp,
+        );
+        const b = new OrderedSet<Entry>(
+            [
+                { id: 2, rank: 1 },
+                { id: 3, rank: 1 },
+            ],
+            eq,
+            cmp,
+        );
+        expect(Array.from(a.union(b), (x) => x.id)).toEqual([1, 2, 3]);
+        expect(Array.from(a.intersection(b), (x) => x.id)).toEqual([2]);
+        expect(Array.from(a.difference(b), (x) => x.id)).toEqual([1]);
+    });
+
+    it("should leave the operands untouched", () => {
+        const a = new OrderedSet([1, 2]);
+        const b = new OrderedSet([2, 3]);
+        a.union(b).add(99);
+        expect(Array.from(a)).toEqual([1, 2]);
+        expect(Array.from(b)).toEqual([2, 3]);
+    });
+
+    it("should keep merged results searchable and writable", () => {
+        const result = new OrderedSet([1, 2, 3]).union(new OrderedSet([4, 5]));
+        expect(result.has(4)).toBe(true);
+        result.delete(2);
+        result.add(0);
+        expect(Array.from(result)).toEqual([0, 1, 3, 4, 5]);
+    });
+
+    it("should match equal elements that the comparator sorts apart", () => {
+        type Person = { id: number; name: string };
+        const people = (...list: Person[]) =>
+            new OrderedSet(
+                list,
+                (a, b) => a.id === b.id,
+                (a, b) => a.name.localeCompare(b.name),
+                (person) => person.id,
+            );
+        const a = people({ id: 1, name: "a" }, { id: 2, name: "m" });
+        const b = people({ id: 1, name: "z" }, { id: 3, name: "b" });
+        const ids = (set: OrderedSet<Person>) => Array.from(set, (person) => person.id);
+        const union = a.union(b);
+        expect(union.size).toBe(3);
+        expect(ids(union)).toEqual([1, 3, 2]);
+        expect(ids(a.intersection(b))).toEqual([1]);
+        expect(ids(a.difference(b))).toEqual([2]);
+        expect(ids(a.symmetricDifference(b))).toEqual([3, 2]);
+        union.validate();
+    });
+});
+
+describe("OrderedSet as a key", () => {
+    it("should compare and hash by contents", () => {
+        const a = new OrderedSet(["x", "y"]);
+        const b = new OrderedSet(["y", "x"]);
+        expect(a.eq(b)).toBe(true);
+        expect(a.hash()).toBe(b.hash());
+        expect(a.cmp(b)).toBe(Ordering.Equal);
+        expect(a.eq(new OrderedSet(["x"]))).toBe(false);
+        expect(a.cmp(new OrderedSet(["x"]))).toBe(Ordering.Greater);
+        expect(a.cmp(new OrderedSet(["x", "z"]))).toBe(Ordering.Less);
+        expect(new OrderedSet<string>().cmp(a)).toBe(Ordering.Less);
+    });
+
+    it("should use its own equality and order", () => {
+        const a = new OrderedSet(
+            ["B", "a"],
+            caseInsensitive,
+            localeCompare(undefined, { sensitivity: "base" }),
+        );
+        const b = new OrderedSet(
+            ["A", "b"],
+            caseInsensitive,
+            localeCompare(undefined, { sensitivity: "base" }),
+        );
+        expect(a.eq(b)).toBe(true);
+        expect(a.hash()).toBe(b.hash());
+        expect(a.cmp(new Set(["b", "c"]))).toBe(Ordering.Less);
+    });
+
+    it("should recompute its cached hash after a change", () => {
+        const set = new OrderedSet([1, 2]);
+        const before = set.hash();
+        expect(set.hash()).toBe(before);
+        set.add(3);
+        expect(set.hash()).toBe(new OrderedSet([3, 2, 1]).hash());
+        set.delete(3);
+        expect(set.hash()).toBe(before);
+    });
+
+    it("should dedupe and sort nested sets", () => {
+        const sets = new OrderedSet([
+            new OrderedSet(["b"]),
+            new OrderedSet(["a", "c"]),
+            new OrderedSet(["c", "a"]),
+            new OrderedSet(["a"]),
+        ]);
+        expect(sets.size).toBe(3);
+        expect(Array.from(sets, (set) => Array.from(set))).toEqual([["a"], ["a", "c"], ["b"]]);
+        expect(sets.has(new OrderedSet(["c", "a"]))).toBe(true);
+
+        const byTags = new OrderedMap<OrderedSet<string>, number>();
+        byTags.set(new OrderedSet(["ui", "bug"]), 1);
+        byTags.set(new OrderedSet(["bug", "ui"]), 2);
+        expect(byTags.size).toBe(1);
+        expect(byTags.get(new OrderedSet(["bug", "ui"]))).toBe(2);
+    });
+});
+
+describe("OrderedSet positions", () => {
+    const byScore = (a: { score: number; name: string }, b: { score: number; name: string }) =>
+        b.score - a.score || a.name.localeCompare(b.name);
+
+    it("should page through a leaderboard", () => {
+        const board = new OrderedSet(
+            Array.from({ length: 100 }, (_, i) => ({ name: `p${i}`, score: (i * 37) % 101 })),
+            (a, b) => a.name === b.name,
+            byScore,
+            (player) => player.name,
+        );
+        const sorted = Array.from(board);
+        expect(Array.from(board.slice(40, 50))).toEqual(sorted.slice(40, 50));
+        expect(board.at(0)).toBe(sorted[0]!);
+        expect(board.at(-1)).toBe(sorted[99]!);
+        expect(board.at(100)).toBeUndefined();
+        expect(board.at(1.5)).toBeUndefined();
+        const player = sorted[57]!;
+        expect(board.indexOf({ name: player.name, score: player.score })).toBe(57);
+        expect(board.indexOf({ name: "nobody", score: 0 })).toBe(-1);
+        expect(board.rank({ name: "", score: player.score })).toBe(57);
+
+        board.delete(sorted[10]!);
+        board.add({ name: "new", score: 1000 });
+        expect(board.indexOf(player)).toBe(57);
+        expect(board.at(0)?.name).toBe("new");
+    });
+
+    it("should slice and count like an array", () => {
+        const set = new OrderedSet([50, 10, 40, 20, 30]);
+        expect(Array.from(set.slice())).toEqual([10, 20, 30, 40, 50]);
+        expect(Array.from(set.slice(-2))).toEqual([40, 50]);
+        expect(Array.from(set.slice(1, -1))).toEqual([20, 30, 40]);
+        expect(Array.from(set.slice(4, 1))).toEqual([]);
+        expect(set.rank(35)).toBe(3);
+        expect(set.indexOf(35)).toBe(-1);
+        expect(set.countRange(20, 40)).toBe(2);
+        expect(set.countRange(20, 40, { loInclusive: false, hiInclusive: true })).toBe(2);
+        expect(set.countRange(0, 100)).toBe(5);
+        expect(set.subSet(15, 45).size).toBe(3);
+        expect(() => set.countRange(40, 20)).toThrow(RangeError);
+    });
+});
+
+describe("OrderedSet bulk construction", () => {
+    it("should add many elements in one pass", () => {
+        const set = new OrderedSet([5, 1]);
+        set.addAll([3, 5, 2, 3]);
+        expect(Array.from(set)).toEqual([1, 2, 3, 5]);
+        expect(set.size).toBe(4);
+        expect(set.at(-1)).toBe(5);
+        const words = new OrderedSet(["b", "A", "a", "B"], caseInsensitive, localeCompare());
+        expect(Array.from(words)).toEqual(["A", "b"]);
+    });
+
+    it("should build from sorted input", () => {
+        const set = OrderedSet.fromSorted([1, 2, 4, 8]);
+        expect(Array.from(set)).toEqual([1, 2, 4, 8]);
+        expect(set.has(4)).toBe(true);
+        expect(set.indexOf(8)).toBe(3);
+        set.add(3);
+        expect(Array.from(set)).toEqual([1, 2, 3, 4, 8]);
+        set.validate();
+    });
+
+    it("should verify sorted input when asked", () => {
+        const verified = { verify: true };
+        expect(
+            Array.from(OrderedSet.fromSorted([1, 2], undefined, undefined, undefined, verified)),
+        ).toEqual([1, 2]);
+        expect(() =>
+            OrderedSet.fromSorted([1, 3, 2], undefined, undefined, undefined, verified),
+        ).toThrow(RangeError);
+        expect(() =>
+            OrderedSet.fromSorted(
+                ["a", "B", "b"],
+                caseInsensitive,
+                localeCompare(undefined, { sensitivity: "base" }),
+                undefined,
+                verified,
+            ),
+        ).toThrow(RangeError);
+    });
+});
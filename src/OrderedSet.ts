@@ -1,39 +1,155 @@
-import { defaultEqualityFn, defaultComparatorFn } from "./shared";
+import { HashIndex, resolveHashFn } from "./HashIndex";
+import {
+    decode,
+    FORMAT_VERSION,
+    readSerialized,
+    type Codec,
+    type SerializedOrderedSet,
+} from "./json";
+import { Cursor } from "./Cursor";
+import { mapIterator, ModificationCounter } from "./iteration";
+import { ChangeNotifier, type ChangeListener, type SetChange } from "./observable";
+import type { CollectionOptions } from "./options";
+import { OrderedSetView } from "./OrderedSetView";
+import { Bounds, SortedTree, type Bound, type RangeOptions } from "./SortedTree";
+import { resolveViolationHandler, throwOnViolation, Validator } from "./validation";
+import {
+    collectionKind,
+    compareKinds,
+    defaultEqualityFn,
+    defaultComparatorFn,
+    lexicographic,
+    unorderedHash,
+    type Cmp,
+    type Hash,
+    type HashCode,
+    Ordering,
+    type ReadonlySetLike,
+} from "./shared";
 
-export class OrderedSet<T> extends Set<T> {
+/**
+ * Options for `OrderedSet.fromSorted`: the usual CollectionOptions, and whether to check that
+ * the input is sorted and distinct rather than trusting it.
+ */
+export interface FromSortedOptions extends CollectionOptions {
+    verify?: boolean;
+}
+
+export class OrderedSet<T> extends Set<T> implements Hash<OrderedSet<T>>, Cmp<OrderedSet<T>> {
     private equalityFn: (a: T, b: T) => boolean;
-    private comparatorFn: (a: T, b: T) => number;
+    readonly comparatorFn: (a: T, b: T) => number;
+    private hashFn: (value: T) => HashCode;
+    private index: HashIndex<T>;
+    private tree: SortedTree<T>;
+    private options: CollectionOptions;
+    private validator?: Validator<T>;
+    private modifications: ModificationCounter;
     private _sortedValues?: Array<T>;
+    private _hash?: number;
+    private notifier?: ChangeNotifier<SetChange<T>>;
 
+    /**
+     * Elements are looked up by hash, then by `equalityFn` within a bucket. A custom `equalityFn`
+     * should come with a matching `hashFn`, otherwise every lookup scans all elements.
+     * See CollectionOptions for `options`.
+     */
     constructor(
         iterable?: Iterable<T>,
         equalityFn?: (a: T, b: T) => boolean,
         comparatorFn?: (a: T, b: T) => number,
+        hashFn?: (element: T) => HashCode,
+        options: CollectionOptions = {},
     ) {
         super();
         this.equalityFn = equalityFn ?? defaultEqualityFn;
         this.comparatorFn = comparatorFn ?? defaultComparatorFn;
+        this.hashFn = resolveHashFn(equalityFn, hashFn);
+        this.index = new HashIndex(this.hashFn, this.equalityFn);
+        this.tree = new SortedTree(this.comparatorFn);
+        this.modifications = new ModificationCounter(options.iteration ?? "snapshot");
+        this.options = options;
+        const handler = resolveViolationHandler(options.validate);
+        if (handler !== undefined) {
+            this.validator = new Validator(
+                this,
+                handler,
+                this.equalityFn,
+                this.comparatorFn,
+                this.hashFn,
+            );
+        }
         if (iterable) {
-            for (const item of iterable) {
-                this.add(item);
-            }
+            this.addAll(iterable);
         }
     }
 
     private findElement(element: T): T | undefined {
-        for (const existingElement of super.values()) {
-            if (this.equalityFn(existingElement, element)) {
-                return existingElement;
-            }
+        const existing = this.index.find(element);
+        if (existing !== undefined) {
+            this.validator?.checkFound(existing, element);
         }
-        return undefined;
+        return existing;
+    }
+
+    private checkInsert(element: T): void {
+        const tree = this.tree;
+        this.validator!.checkInsert(element, [
+            tree.floor(element),
+            tree.ceiling(element, false),
+            tree.first(),
+            tree.last(),
+        ]);
     }
 
     add(element: T): this {
         const existing = this.findElement(element);
         if (existing === undefined) {
+            if (this.validator !== undefined) {
+                this.checkInsert(element);
+            }
+            this.index.add(element);
+            this.tree.insert(element);
+            this.modifications.increment();
             super.add(element);
             this.invalidate();
+            if (this.notifier?.active) {
+                const index = this.tree.indexOf(element);
+                this.notifier.emit({ type: "added", value: element, index });
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Adds many elements at once. New elements are sorted together and merged into the set's
+     * order in one pass, rather than inserted one by one.
+     */
+    addAll(elements: Iterable<T>): this {
+        if (this.validator !== undefined || this.notifier?.active) {
+            // Validation and change records both look at each element's place as it goes in.
+            return this.batch(() => {
+                for (const element of elements) {
+                    this.add(element);
+                }
+                return this;
+            });
+        }
+        const added: Array<T> = [];
+        try {
+            for (const element of elements) {
+                if (this.index.find(element) === undefined) {
+                    this.index.add(element);
+                    added.push(element);
+                    super.add(element);
+                }
+            }
+        } finally {
+            // Keeps the tree in step with the index if the elements throw part way.
+            if (added.length > 0) {
+                this.tree.insertSorted(added.sort(this.comparatorFn));
+                this.modifications.increment();
+                this.invalidate();
+            }
         }
         return this;
     }
@@ -43,51 +159,469 @@ export class OrderedSet<T> extends Set<T> {
     }
 
     delete(element: T): boolean {
-        const existingElement = this.findElement(element);
+        const existingElement = this.index.delete(element);
         if (existingElement !== undefined) {
+            this.validator?.checkFound(existingElement, element);
+            this.validator?.forget(existingElement);
             this.invalidate();
-            return super.delete(existingElement);
+            const index = this.notifier?.active ? this.tree.indexOf(existingElement) : -1;
+            this.tree.delete(existingElement);
+            this.modifications.increment();
+            super.delete(existingElement);
+            if (index !== -1) {
+                this.notifier!.emit({ type: "removed", value: existingElement, index });
+            }
+            return true;
         }
         return false;
     }
 
+    /**
+     * Returns a live view of the elements from lo to hi. By default lo is included and hi is not.
+     */
+    subSet(lo: T, hi: T, options: RangeOptions = {}): OrderedSetView<T> {
+        return this.view(
+            { value: lo, inclusive: options.loInclusive ?? true },
+            { value: hi, inclusive: options.hiInclusive ?? false },
+        );
+    }
+
+    /**
+     * Returns a live view of the elements below hi, or up to it if inclusive.
+     */
+    headSet(hi: T, inclusive = false): OrderedSetView<T> {
+        return this.view(undefined, { value: hi, inclusive });
+    }
+
+    /**
+     * Returns a live view of the elements from lo on, or above it if not inclusive.
+     */
+    tailSet(lo: T, inclusive = true): OrderedSetView<T> {
+        return this.view({ value: lo, inclusive }, undefined);
+    }
+
+    /**
+     * Returns the element at the given position in order; negative positions count back from the
+     * end. Returns undefined if the position is out of range. O(log n).
+     */
+    at(index: number): T | undefined {
+        const i = index < 0 ? index + this.size : index;
+        return Number.isInteger(i) ? this.tree.at(i) : undefined;
+    }
+
+    /**
+     * Returns the position in order of the element equal to the given one by `equalityFn`, or -1
+     * if there is none. O(log n).
+     */
+    indexOf(element: T): number {
+        const existing = this.findElement(element);
+        return existing !== undefined ? this.tree.indexOf(existing) : -1;
+    }
+
+    /**
+     * Returns the number of elements that compare below the given one by `comparatorFn`, which
+     * is the position it has or would have in the set. O(log n).
+     */
+    rank(element: T): number {
+        return this.tree.count(
+            new Bounds(this.comparatorFn, undefined, { value: element, inclusive: false }),
+        );
+    }
+
+    /**
+     * Iterates the elements from start up to end in order, treating negative and missing
+     * positions as `Array.prototype.slice` does. The elements are copied when this is called, in
+     * O(log n + k) for k elements.
+     */
+    slice(start?: number, end?: number): IterableIterator<T> {
+        return this.tree.slice(start, end).values();
+    }
+
+    /**
+     * Returns the number of elements from lo to hi. By default lo is included and hi is not.
+     * O(log n).
+     */
+    countRange(lo: T, hi: T, options: RangeOptions = {}): number {
+        return this.tree.count(
+            new Bounds(
+                this.comparatorFn,
+                { value: lo, inclusive: options.loInclusive ?? true },
+                { value: hi, inclusive: options.hiInclusive ?? false },
+            ),
+        );
+    }
+
+    /**
+     * Checks every element: that elements are still in order, still hash as they did when they
+     * were inserted, and can still be found. Violations go to the handler from the `validate`
+     * option, or are thrown if validation is off.
+     */
+    validate(): void {
+        const validator =
+            this.validator ??
+            new Validator(this, throwOnViolation, this.equalityFn, this.comparatorFn, this.hashFn);
+        validator.checkAll(this.tree.values(), (element) => this.index.find(element));
+    }
+
+    private *liveValues(): IterableIterator<T> {
+        const tree = this.tree;
+        for (let element = tree.first(); element !== undefined; element = tree.successor(element)) {
+            yield element;
+        }
+    }
+
+    private *liveReverseValues(): IterableIterator<T> {
+        const tree = this.tree;
+        for (
+            let element = tree.last();
+            element !== undefined;
+            element = tree.predecessor(element)
+        ) {
+            yield element;
+        }
+    }
+
+    private view(lo?: Bound<T>, hi?: Bound<T>): OrderedSetView<T> {
+        return new OrderedSetView(this, this.tree, new Bounds(this.comparatorFn, lo, hi));
+    }
+
+    /**
+     * Returns a new set with the elements of both this set and the specified one.
+     */
+    union<U>(other: ReadonlySetLike<U>): OrderedSet<T | U> {
+        if (this.isCompatible(other)) {
+            return this.merge(other, () => true) as OrderedSet<T | U>;
+        }
+        const result = this.copy() as OrderedSet<T | U>;
+        for (const value of other.keys()) {
+            result.add(value);
+        }
+        return result;
+    }
+
+    /**
+     * Returns a new set with the elements of this set that are also in the specified one.
+     */
+    intersection<U>(other: ReadonlySetLike<U>): OrderedSet<T & U> {
+        if (this.isCompatible(other)) {
+            return this.merge(other, (inThis, inOther) => inThis && inOther) as OrderedSet<T & U>;
+        }
+        const others = this.adopt(other);
+        return this.filtered((value) => others.has(value)) as OrderedSet<T & U>;
+    }
+
+    /**
+     * Returns a new set with the elements of this set that are not in the specified one.
+     */
+    difference<U>(other: ReadonlySetLike<U>): OrderedSet<T> {
+        if (this.isCompatible(other)) {
+            return this.merge(other, (inThis, inOther) => inThis && !inOther);
+        }
+        const others = this.adopt(other);
+        return this.filtered((value) => !others.has(value));
+    }
+
+    /**
+     * Returns a new set with the elements that are in exactly one of this set and the specified
+     * one.
+     */
+    symmetricDifference<U>(other: ReadonlySetLike<U>): OrderedSet<T | U> {
+        if (this.isCompatible(other)) {
+            return this.merge(other, (inThis, inOther) => inThis !== inOther) as OrderedSet<T | U>;
+        }
+        const result = this.difference(other) as OrderedSet<T | U>;
+        for (const value of other.keys()) {
+            if (!this.has(value as unknown as T)) {
+                result.add(value);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Returns true if every element of this set is in the specified one.
+     */
+    isSubsetOf(other: ReadonlySetLike<unknown>): boolean {
+        const others = this.isCompatible(other) ? other : this.adopt(other);
+        for (const value of this.sortedValues) {
+            if (!others.has(value)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Returns true if every element of the specified set is in this one.
+     */
+    isSupersetOf(other: ReadonlySetLike<unknown>): boolean {
+        for (const value of other.keys()) {
+            if (!this.has(value as T)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Returns true if this set and the specified one have no elements in common.
+     */
+    isDisjointFrom(other: ReadonlySetLike<unknown>): boolean {
+        for (const value of other.keys()) {
+            if (this.has(value as T)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Returns true if the other collection is a set with the same elements, by this set's
+     * equality. Bags and maps are never equal to a set.
+     */
+    eq(other: ReadonlySetLike<unknown>): boolean {
+        if (collectionKind(other) !== "set" || this.size !== other.size) {
+            return false;
+        }
+        for (const value of other.keys()) {
+            if (!this.has(value as T)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Orders sets by their elements in order, compared in turn with this set's comparator; a set
+     * whose elements are a prefix of the other's comes first. Sets come before bags and maps.
+     */
+    cmp(other: ReadonlySetLike<unknown>): Ordering {
+        const kinds = compareKinds(this, other);
+        if (kinds !== Ordering.Equal) {
+            return kinds;
+        }
+        const values = this.isCompatible(other)
+            ? other.sortedValues
+            : Array.from(other.keys() as Iterable<T>).sort(this.comparatorFn);
+        return lexicographic(this.comparatorFn)(this.sortedValues, values);
+    }
+
+    /**
+     * Hashes the elements with this set's hash function, regardless of order, so that sets can be
+     * keys of other collections. The hash is cached until the next change; like any key hashed by
+     * contents, a set must not change while it is a key.
+     */
+    hash(): HashCode {
+        if (this._hash === undefined) {
+            this._hash = unorderedHash(this.sortedValues, this.hashFn);
+        }
+        return this._hash;
+    }
+
+    /**
+     * Returns a new, empty set sharing this set's equality, ordering and hashing.
+     */
+    private create(): OrderedSet<T> {
+        return new OrderedSet(
+            undefined,
+            this.equalityFn,
+            this.comparatorFn,
+            this.hashFn,
+            this.options,
+        );
+    }
+
+    private copy(): OrderedSet<T> {
+        const result = this.create();
+        result.loadSorted(this.sortedValues);
+        return result;
+    }
+
+    private filtered(predicate: (value: T) => boolean): OrderedSet<T> {
+        const result = this.create();
+        result.loadSorted(this.sortedValues.filter(predicate));
+        return result;
+    }
+
+    /**
+     * Copies the elements of a set-like into a set of this kind, so that membership is decided
+     * by this set's equality rather than the other's.
+     */
+    private adopt(other: ReadonlySetLike<unknown>): OrderedSet<T> {
+        const result = this.create();
+        for (const value of other.keys()) {
+            result.add(value as T);
+        }
+        return result;
+    }
+
+    /**
+     * Checks that values are in order and distinct. Equal elements are expected to sort
+     * together, so each is only compared with the run that ties with it.
+     */
+    private checkSorted(values: ReadonlyArray<T>): void {
+        let runStart = 0;
+        for (let i = 1; i < values.length; i++) {
+            const order = this.comparatorFn(values[i - 1]!, values[i]!);
+            if (order > 0) {
+                throw new RangeError(`The elements are not sorted at index ${i}`);
+            }
+            if (order < 0) {
+                runStart = i;
+            } else if (
+                values.slice(runStart, i).some((value) => this.equalityFn(value, values[i]!))
+            ) {
+                throw new RangeError(`The element at index ${i} is a duplicate`);
+            }
+        }
+    }
+
+    /**
+     * Fills an empty set with distinct elements that are already in order.
+     */
+    private loadSorted(values: ReadonlyArray<T>): void {
+        for (const value of values) {
+            this.validator?.checkInsert(value, []);
+            this.index.add(value);
+            super.add(value);
+        }
+        this.tree.loadSorted(values);
+        this.modifications.increment();
+        this.invalidate();
+    }
+
+    /**
+     * Whether the other set is an OrderedSet with the same equality and ordering, so the two
+     * can be merged in one linear pass.
+     */
+    private isCompatible(other: ReadonlySetLike<unknown>): other is OrderedSet<T> {
+        return (
+            other instanceof OrderedSet &&
+            other.equalityFn === this.equalityFn &&
+            other.comparatorFn === this.comparatorFn
+        );
+    }
+
+    /**
+     * Walks both sets in order and keeps the elements the predicate accepts, told whether each
+     * element is in this set, the other, or both. Membership is looked up by `equalityFn`, so
+     * equal elements are matched even where the comparator sorts them apart; an element of the
+     * other set that this set has is decided along with this set's copy.
+     */
+    private merge(
+        other: OrderedSet<T>,
+        keep: (inThis: boolean, inOther: boolean) => boolean,
+    ): OrderedSet<T> {
+        const a = this.sortedValues;
+        const b = other.sortedValues;
+        const values: Array<T> = [];
+        let i = 0;
+        let j = 0;
+        while (i < a.length || j < b.length) {
+            if (j === b.length || (i < a.length && this.comparatorFn(a[i]!, b[j]!) <= 0)) {
+                const x = a[i++]!;
+                if (keep(true, other.index.find(x) !== undefined)) {
+                    values.push(x);
+                }
+            } else {
+                const y = b[j++]!;
+                if (this.index.find(y) === undefined && keep(false, true)) {
+                    values.push(y);
+                }
+            }
+        }
+        const result = this.create();
+        result.loadSorted(values);
+        return result;
+    }
+
     invalidate() {
         this._sortedValues = undefined;
+        this._hash = undefined;
     }
 
     get sortedValues() {
         if (this._sortedValues === undefined) {
-            this._sortedValues = Array.from(super.values());
-            this._sortedValues.sort(this.comparatorFn);
+            this._sortedValues = Array.from(this.tree.values());
         }
         return this._sortedValues;
     }
 
     clear(): void {
+        const wasEmpty = this.size === 0;
         this.invalidate();
+        this.index.clear();
+        this.tree.clear();
+        this.validator?.clear();
+        this.modifications.increment();
         super.clear();
+        if (!wasEmpty && this.notifier?.active) {
+            this.notifier.emit({ type: "cleared" });
+        }
     }
 
-    *values(): IterableIterator<T> {
-        for (const element of this.sortedValues) {
-            yield element;
-        }
+    /**
+     * Calls the listener with the changes made to the set from now on, one call per operation or
+     * per `batch`. A listener that throws doesn't stop the change or the other listeners; its
+     * error goes to the handler set with `setListenerErrorHandler`.
+     * @returns a function that unsubscribes the listener, effective at once
+     */
+    subscribe(listener: ChangeListener<SetChange<T>>): () => void {
+        this.notifier ??= new ChangeNotifier();
+        return this.notifier.subscribe(listener);
     }
 
-    *keys(): IterableIterator<T> {
-        for (const element of this.sortedValues) {
-            yield element;
-        }
+    /**
+     * Runs the function and notifies listeners of the changes it makes all at once, when it
+     * returns or throws.
+     */
+    batch<R>(fn: () => R): R {
+        this.notifier ??= new ChangeNotifier();
+        return this.notifier.batch(fn);
     }
 
-    *entries(): IterableIterator<[T, T]> {
-        for (const element of this.sortedValues) {
-            yield [element, element];
-        }
+    /**
+     * Iterates the elements in order, following the `iteration` option when the set changes
+     * along the way.
+     */
+    values(): IterableIterator<T> {
+        return this.modifications.iterate(
+            () => this.sortedValues,
+            () => this.liveValues(),
+        );
+    }
+
+    /**
+     * Iterates the elements in reverse order, following the `iteration` option like `values()`.
+     */
+    reverseValues(): IterableIterator<T> {
+        return this.modifications.iterate(
+            () => this.sortedValues.toReversed(),
+            () => this.liveReverseValues(),
+        );
+    }
+
+    /**
+     * Returns a cursor over the elements, placed before the first one.
+     */
+    cursor(): Cursor<T> {
+        return new Cursor(
+            this.tree,
+            (element) => element,
+            (element) => this.delete(element),
+        );
+    }
+
+    keys(): IterableIterator<T> {
+        return this.values();
+    }
+
+    entries(): IterableIterator<[T, T]> {
+        return mapIterator(this.values(), (element): [T, T] => [element, element]);
     }
 
     forEach(fn: (value: T, value2: T, set: this) => void): void {
-        for (const element of this.sortedValues) {
+        for (const element of this.values()) {
             fn(element, element, this);
         }
     }
@@ -95,4 +629,61 @@ export class OrderedSet<T> extends Set<T> {
     [Symbol.iterator](): IterableIterator<T> {
         return this.values();
     }
+
+    /**
+     * Returns the JSON form of this set: its elements in order, tagged with the format version.
+     * Elements are left to `JSON.stringify`.
+     */
+    toJSON(): SerializedOrderedSet {
+        return {
+            "@type": "OrderedSet",
+            "version": FORMAT_VERSION,
+            "values": Array.from(this.values()),
+        };
+    }
+
+    /**
+     * Builds a set from distinct elements that are already in `comparatorFn` order, in linear
+     * time. The input is trusted, so out-of-order or repeated elements leave the set
+     * inconsistent, unless `options.verify` is set to check it first.
+     * @throws RangeError if verifying and the elements are out of order or repeat
+     */
+    static fromSorted<T>(
+        elements: Iterable<T>,
+        equalityFn?: (a: T, b: T) => boolean,
+        comparatorFn?: (a: T, b: T) => number,
+        hashFn?: (element: T) => HashCode,
+        options: FromSortedOptions = {},
+    ): OrderedSet<T> {
+        const { verify = false, ...collectionOptions } = options;
+        const set = new OrderedSet(undefined, equalityFn, comparatorFn, hashFn, collectionOptions);
+        const values = Array.from(elements);
+        if (verify) {
+            set.checkSorted(values);
+        }
+        set.loadSorted(values);
+        return set;
+    }
+
+    /**
+     * Rebuilds a set from its JSON form. Functions can't be serialized, so custom equality,
+     * comparator and hash functions must be passed again.
+     * @param json the JSON text or the parsed JSON form
+     * @param codec rebuilds elements, such as class instances, from their JSON form
+     */
+    static fromJSON<T>(
+        json: string | SerializedOrderedSet,
+        codec?: Codec<T>,
+        equalityFn?: (a: T, b: T) => boolean,
+        comparatorFn?: (a: T, b: T) => number,
+        hashFn?: (element: T) => HashCode,
+    ): OrderedSet<T> {
+        const { values } = readSerialized(json, "OrderedSet");
+        return new OrderedSet(
+            values.map((value) => decode(codec, value)),
+            equalityFn,
+            comparatorFn,
+            hashFn,
+        );
+    }
 }
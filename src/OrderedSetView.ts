@@ -0,0 +1,72 @@
+import type { OrderedSet } from "./OrderedSet";
+import type { SetLike } from "./shared";
+import type { Bounds, SortedTree } from "./SortedTree";
+
+/**
+ * A live view of the elements of an OrderedSet that fall within a range. Reads reflect later
+ * changes to the set, and writes go through to it; adding an element outside the range throws a
+ * RangeError.
+ */
+export class OrderedSetView<T> implements SetLike<T> {
+    constructor(
+        private parent: OrderedSet<T>,
+        private tree: SortedTree<T>,
+        private bounds: Bounds<T>,
+    ) {}
+
+    /**
+     * The number of elements in range, counted in O(log n) on every access.
+     */
+    get size(): number {
+        return this.tree.count(this.bounds);
+    }
+
+    has(value: T): boolean {
+        return this.bounds.contains(value) && this.parent.has(value);
+    }
+
+    add(value: T): this {
+        this.bounds.assertContains(value);
+        this.parent.add(value);
+        return this;
+    }
+
+    delete(value: T): boolean {
+        return this.bounds.contains(value) && this.parent.delete(value);
+    }
+
+    /**
+     * Removes the elements in range from the underlying set.
+     */
+    clear(): void {
+        for (const value of Array.from(this.tree.range(this.bounds))) {
+            this.parent.delete(value);
+        }
+    }
+
+    *values(): IterableIterator<T> {
+        for (const value of Array.from(this.tree.range(this.bounds))) {
+            yield value;
+        }
+    }
+
+    keys(): IterableIterator<T> {
+        return this.values();
+    }
+
+    *entries(): IterableIterator<[T, T]> {
+        for (const value of this.values()) {
+            yield [value, value];
+        }
+    }
+
+    forEach(fn: (value: T, value2: T, set: this) => void): void {
+        for (const value of this.values()) {
+            fn(value, value, this);
+        }
+    }
+
+    [Symbol.iterator](): IterableIterator<T> {
+        return this.values();
+    }
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect } from "bun:test";
+import { PersistentOrderedMap } from "./PersistentOrderedMap";
+import { Ordering } from "./shared";
+
+class Version {
+    constructor(
+        public major: number,
+        public label: string,
+    ) {}
+
+    eq(other: Version): boolean {
+        return this.major === other.major;
+    }
+
+    cmp(other: Version): Ordering {
+        return this.major < other.major
+            ? Ordering.Less
+            : this.major > other.major
+              ? Ordering.Greater
+              : Ordering.Equal;
+    }
+}
+
+describe("PersistentOrderedMap", () => {
+    it("should return new versions and leave old ones untouched", () => {
+        const empty = new PersistentOrderedMap<number, string>();
+        const one = empty.set(2, "two").set(1, "one");
+        const two = one.set(3, "three");
+        const three = two.delete(1);
+        expect(empty.size).toBe(0);
+        expect(Array.from(one)).toEqual([
+            [1, "one"],
+            [2, "two"],
+        ]);
+        expect(Array.from(two.keys())).toEqual([1, 2, 3]);
+        expect(Array.from(three.keys())).toEqual([2, 3]);
+        expect(three.get(1)).toBeUndefined();
+        expect(two.get(1)).toBe("one");
+    });
+
+    it("should return the same map when nothing changed", () => {
+        const map = new PersistentOrderedMap([[1, "one"]]);
+        expect(map.set(1, "one")).toBe(map);
+        expect(map.delete(2)).toBe(map);
+    });
+
+    it("should share unchanged nodes between versions", () => {
+        let map = new PersistentOrderedMap<number, number>();
+        for (let i = 0; i < 1000; i++) {
+            map = map.set(i, i);
+        }
+        const next = map.set(900, -1);
+        expect(next["root"]).not.toBe(map["root"]);
+        expect(next["root"]!.left === map["root"]!.left).toBe(true);
+        expect(map.get(900)).toBe(900);
+        expect(next.get(900)).toBe(-1);
+    });
+
+    it("should keep every version intact under random changes", () => {
+        const versions: Array<[PersistentOrderedMap<number, number>, Map<number, number>]> = [];
+        let map = new PersistentOrderedMap<number, number>();
+        const model = new Map<number, number>();
+        let seed = 42;
+        for (let i = 0; i < 300; i++) {
+            seed = (seed * 16807) % 2147483647;
+            const key = seed % 50;
+            if (seed % 3 === 0) {
+                map = map.delete(key);
+                model.delete(key);
+            } else {
+                map = map.set(key, i);
+                model.set(key, i);
+            }
+            versions.push([map, new Map(model)]);
+        }
+        for (const [version, expected] of versions) {
+            const sorted = Array.from(expected).sort(([a], [b]) => a - b);
+            expect(Array.from(version)).toEqual(sorted);
+            expect(version.size).toBe(expected.size);
+        }
+    });
+
+    it("should honor Eq and Cmp implementations", () => {
+        const map = new PersistentOrderedMap<Version, string>()
+            .set(new Version(2, "b"), "two")
+            .set(new Version(1, "a"), "one")
+            .set(new Version(2, "c"), "TWO");
+        expect(map.size).toBe(2);
+        expect(map.get(new Version(2, "x"))).toBe("TWO");
+        expect(Array.from(map.keys(), (v) => v.label)).toEqual(["a", "b"]);
+    });
+
+    it("should use custom equality and comparator functions", () => {
+        const map = new PersistentOrderedMap<string, number>(
+            [
+                ["b", 2],
+                ["A", 1],
+            ],
+            (a, b) => a.toLowerCase() === b.toLowerCase(),
+            (a, b) => a.toLowerCase().localeCompare(b.toLowerCase()),
+        );
+        expect(map.get("a")).toBe(1);
+        expect(Array.from(map.keys())).toEqual(["A", "b"]);
+        expect(map.delete("B").size).toBe(1);
+    });
+
+    describe("transients", () => {
+        it("should batch changes with withMutations", () => {
+            const base = new PersistentOrderedMap([[1, "one"]]);
+            const next = base.withMutations((map) => {
+                expect(map.isMutable()).toBe(true);
+                expect(map.set(2, "two")).toBe(map);
+                map.set(3, "three").delete(1);
+            });
+            expect(next.isMutable()).toBe(false);
+            expect(Array.from(next.keys())).toEqual([2, 3]);
+            expect(Array.from(base.keys())).toEqual([1]);
+        });
+
+        it("should not change a snapshot through a mutable copy", () => {
+            let base = new PersistentOrderedMap<number, number>();
+            for (let i = 0; i < 100; i++) {
+                base = base.set(i, i);
+            }
+            const mutable = base.asMutable();
+            for (let i = 0; i < 100; i += 2) {
+                mutable.delete(i);
+            }
+            mutable.set(1, -1);
+            expect(base.size).toBe(100);
+            expect(base.get(1)).toBe(1);
+            expect(mutable.size).toBe(50);
+
+            const snapshot = mutable.asImmutable();
+            mutable.set(3, -3).delete(5);
+            expect(snapshot.get(3)).toBe(3);
+            expect(snapshot.has(5)).toBe(true);
+            expect(mutable.get(3)).toBe(-3);
+        });
+
+        it("should keep a mutable copy of a mutable map apart from it", () => {
+            const map = new PersistentOrderedMap<number, string>().asMutable().set(1, "a");
+            const copy = map.asMutable();
+            map.set(1, "Z").set(2, "b");
+            copy.set(3, "c");
+            expect(copy.get(1)).toBe("a");
+            expect(Array.from(copy.keys())).toEqual([1, 3]);
+            expect(Array.from(map.keys())).toEqual([1, 2]);
+            expect(map.get(1)).toBe("Z");
+        });
+
+        it("should return the same map from asImmutable when already immutable", () => {
+            const map = new PersistentOrderedMap<number, number>();
+            expect(map.asImmutable()).toBe(map);
+        });
+    });
+});
@@ -0,0 +1,179 @@
+import { find, insert, remove, replace, walk, type PNode, type TreeFns } from "./PersistentTree";
+import { defaultEqualityFn, defaultComparatorFn } from "./shared";
+
+/**
+ * An immutable sorted map. `set` and `delete` return a new map that shares all but O(log n) nodes
+ * with the old one, so keeping every version around is cheap.
+ *
+ * Keys that are equal under `equalityFn` must compare equal under `comparatorFn`, since keys are
+ * found by descending the tree.
+ *
+ * A mutable copy from `asMutable()` (or the one passed to `withMutations`) changes in place and
+ * returns itself, which is faster for batches; `asImmutable()` turns it back into a snapshot in
+ * O(1).
+ */
+export class PersistentOrderedMap<K, V> {
+    private root: PNode<K, V> | undefined;
+    private _size = 0;
+    private fns: TreeFns<K>;
+    private owner: object | undefined;
+
+    constructor(
+        entries?: Iterable<[K, V]>,
+        equalityFn?: (a: K, b: K) => boolean,
+        comparatorFn?: (a: K, b: K) => number,
+    ) {
+        this.fns = {
+            equalityFn: equalityFn ?? defaultEqualityFn,
+            comparatorFn: comparatorFn ?? defaultComparatorFn,
+        };
+        if (entries) {
+            this.owner = {};
+            for (const [key, value] of entries) {
+                this.set(key, value);
+            }
+            this.owner = undefined;
+        }
+    }
+
+    get size(): number {
+        return this._size;
+    }
+
+    isEmpty(): boolean {
+        return this._size === 0;
+    }
+
+    /**
+     * Whether this map changes in place, as returned by `asMutable()`.
+     */
+    isMutable(): boolean {
+        return this.owner !== undefined;
+    }
+
+    get(key: K): V | undefined {
+        return find(this.root, key, this.fns)?.value;
+    }
+
+    has(key: K): boolean {
+        return find(this.root, key, this.fns) !== undefined;
+    }
+
+    /**
+     * Returns a map with the key set to the value. Returns this map if nothing changed.
+     */
+    set(key: K, value: V): PersistentOrderedMap<K, V> {
+        const outcome = { found: false };
+        const root = replace(this.root, key, value, this.fns, this.owner, outcome);
+        if (outcome.found) {
+            return this.with(root, this._size);
+        }
+        return this.with(insert(this.root, key, value, this.fns, this.owner), this._size + 1);
+    }
+
+    /**
+     * Returns a map without the key. Returns this map if the key wasn't in it.
+     */
+    delete(key: K): PersistentOrderedMap<K, V> {
+        const outcome = { found: false };
+        const root = remove(this.root, key, this.fns, this.owner, outcome);
+        return outcome.found ? this.with(root, this._size - 1) : this;
+    }
+
+    /**
+     * Returns an empty map with the same equality and ordering.
+     */
+    clear(): PersistentOrderedMap<K, V> {
+        return this.with(undefined, 0);
+    }
+
+    /**
+     * Returns a mutable copy of this map in O(1). Nodes are copied the first time either map
+     * changes them, so the two never affect each other.
+     */
+    asMutable(): PersistentOrderedMap<K, V> {
+        if (this.owner !== undefined) {
+            this.owner = {};
+        }
+        return PersistentOrderedMap.make(this.root, this._size, this.fns, {});
+    }
+
+    /**
+     * Returns an immutable snapshot of this map in O(1). If this map is mutable, it stays usable,
+     * but later changes to it no longer touch the nodes shared with the snapshot.
+     */
+    asImmutable(): PersistentOrderedMap<K, V> {
+        if (this.owner === undefined) {
+            return this;
+        }
+        this.owner = {};
+        return PersistentOrderedMap.make(this.root, this._size, this.fns, undefined);
+    }
+
+    /**
+     * Applies a batch of changes to a mutable copy and returns the result as a new snapshot.
+     */
+    withMutations(fn: (map: PersistentOrderedMap<K, V>) => void): PersistentOrderedMap<K, V> {
+        if (this.owner !== undefined) {
+            fn(this);
+            return this;
+        }
+        const mutable = this.asMutable();
+        fn(mutable);
+        return mutable.asImmutable();
+    }
+
+    *keys(): IterableIterator<K> {
+        for (const node of walk(this.root)) {
+            yield node.key;
+        }
+    }
+
+    *values(): IterableIterator<V> {
+        for (const node of walk(this.root)) {
+            yield node.value;
+        }
+    }
+
+    *entries(): IterableIterator<[K, V]> {
+        for (const node of walk(this.root)) {
+            yield [node.key, node.value];
+        }
+    }
+
+    forEach(fn: (value: V, key: K, map: this) => void): void {
+        for (const node of walk(this.root)) {
+            fn(node.value, node.key, this);
+        }
+    }
+
+    [Symbol.iterator](): IterableIterator<[K, V]> {
+        return this.entries();
+    }
+
+    private with(root: PNode<K, V> | undefined, size: number): PersistentOrderedMap<K, V> {
+        if (this.owner !== undefined) {
+            this.root = root;
+            this._size = size;
+            return this;
+        }
+        if (root === this.root) {
+            return this;
+        }
+        return PersistentOrderedMap.make(root, size, this.fns, undefined);
+    }
+
+    private static make<K, V>(
+        root: PNode<K, V> | undefined,
+        size: number,
+        fns: TreeFns<K>,
+        owner: object | undefined,
+    ): PersistentOrderedMap<K, V> {
+        const map = new PersistentOrderedMap<K, V>();
+        map.root = root;
+        map._size = size;
+        map.fns = fns;
+        map.owner = owner;
+        return map;
+    }
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "bun:test";
+import { PersistentOrderedSet } from "./PersistentOrderedSet";
+
+describe("PersistentOrderedSet", () => {
+    it("should return new versions and leave old ones untouched", () => {
+        const a = new PersistentOrderedSet([3, 1]);
+        const b = a.add(2);
+        const c = b.delete(3);
+        expect(Array.from(a)).toEqual([1, 3]);
+        expect(Array.from(b)).toEqual([1, 2, 3]);
+        expect(Array.from(c)).toEqual([1, 2]);
+        expect(a.add(1)).toBe(a);
+        expect(a.delete(99)).toBe(a);
+    });
+
+    it("should dedupe with the equality function", () => {
+        const set = new PersistentOrderedSet(
+            ["b", "A", "a"],
+            (x, y) => x.toLowerCase() === y.toLowerCase(),
+            (x, y) => x.toLowerCase().localeCompare(y.toLowerCase()),
+        );
+        expect(Array.from(set)).toEqual(["A", "b"]);
+        expect(set.has("B")).toBe(true);
+    });
+
+    it("should batch changes with withMutations", () => {
+        const base = new PersistentOrderedSet([1]);
+        const next = base.withMutations((set) => {
+            expect(set.add(2)).toBe(set);
+            set.add(3).delete(1);
+        });
+        expect(Array.from(next)).toEqual([2, 3]);
+        expect(Array.from(base)).toEqual([1]);
+        const mutable = next.asMutable();
+        mutable.clear();
+        expect(mutable.size).toBe(0);
+        expect(next.size).toBe(2);
+        expect(mutable.asImmutable().isMutable()).toBe(false);
+    });
+
+    it("should keep a mutable copy of a mutable set apart from it", () => {
+        const set = new PersistentOrderedSet<number>().asMutable().add(1).add(2);
+        const copy = set.asMutable();
+        set.delete(1).add(3);
+        expect(Array.from(copy)).toEqual([1, 2]);
+        expect(Array.from(set)).toEqual([2, 3]);
+    });
+});
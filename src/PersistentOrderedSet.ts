@@ -0,0 +1,130 @@
+import { PersistentOrderedMap } from "./PersistentOrderedMap";
+
+/**
+ * An immutable sorted set, backed by a PersistentOrderedMap. `add` and `delete` return a new set
+ * that shares structure with the old one; see PersistentOrderedMap for the mutable variants.
+ */
+export class PersistentOrderedSet<T> {
+    private map: PersistentOrderedMap<T, T>;
+
+    constructor(
+        iterable?: Iterable<T>,
+        equalityFn?: (a: T, b: T) => boolean,
+        comparatorFn?: (a: T, b: T) => number,
+    ) {
+        this.map = new PersistentOrderedMap<T, T>(undefined, equalityFn, comparatorFn);
+        if (iterable) {
+            this.map = this.map.withMutations((map) => {
+                for (const value of iterable) {
+                    if (!map.has(value)) {
+                        map.set(value, value);
+                    }
+                }
+            });
+        }
+    }
+
+    get size(): number {
+        return this.map.size;
+    }
+
+    isEmpty(): boolean {
+        return this.map.isEmpty();
+    }
+
+    /**
+     * Whether this set changes in place, as returned by `asMutable()`.
+     */
+    isMutable(): boolean {
+        return this.map.isMutable();
+    }
+
+    has(value: T): boolean {
+        return this.map.has(value);
+    }
+
+    /**
+     * Returns a set with the value added. Returns this set if it was already there.
+     */
+    add(value: T): PersistentOrderedSet<T> {
+        return this.map.has(value) ? this : this.with(this.map.set(value, value));
+    }
+
+    /**
+     * Returns a set without the value. Returns this set if it wasn't there.
+     */
+    delete(value: T): PersistentOrderedSet<T> {
+        return this.with(this.map.delete(value));
+    }
+
+    /**
+     * Returns an empty set with the same equality and ordering.
+     */
+    clear(): PersistentOrderedSet<T> {
+        return this.with(this.map.clear());
+    }
+
+    /**
+     * Returns a mutable copy of this set in O(1).
+     */
+    asMutable(): PersistentOrderedSet<T> {
+        return PersistentOrderedSet.wrap(this.map.asMutable());
+    }
+
+    /**
+     * Returns an immutable snapshot of this set in O(1).
+     */
+    asImmutable(): PersistentOrderedSet<T> {
+        return this.map.isMutable() ? PersistentOrderedSet.wrap(this.map.asImmutable()) : this;
+    }
+
+    /**
+     * Applies a batch of changes to a mutable copy and returns the result as a new snapshot.
+     */
+    withMutations(fn: (set: PersistentOrderedSet<T>) => void): PersistentOrderedSet<T> {
+        if (this.isMutable()) {
+            fn(this);
+            return this;
+        }
+        const mutable = this.asMutable();
+        fn(mutable);
+        return mutable.asImmutable();
+    }
+
+    values(): IterableIterator<T> {
+        return this.map.keys();
+    }
+
+    keys(): IterableIterator<T> {
+        return this.map.keys();
+    }
+
+    *entries(): IterableIterator<[T, T]> {
+        for (const value of this.map.keys()) {
+            yield [value, value];
+        }
+    }
+
+    forEach(fn: (value: T, value2: T, set: this) => void): void {
+        for (const value of this.map.keys()) {
+            fn(value, value, this);
+        }
+    }
+
+    [Symbol.iterator](): IterableIterator<T> {
+        return this.values();
+    }
+
+    private with(map: PersistentOrderedMap<T, T>): PersistentOrderedSet<T> {
+        if (map === this.map) {
+            return this;
+        }
+        return PersistentOrderedSet.wrap(map);
+    }
+
+    private static wrap<T>(map: PersistentOrderedMap<T, T>): PersistentOrderedSet<T> {
+        const set = new PersistentOrderedSet<T>();
+        set.map = map;
+        return set;
+    }
+}
@@ -0,0 +1,181 @@
+/**
+ * Functions over an immutable AVL tree. Every change copies the path it touches and shares the
+ * rest, except for nodes stamped with the owner token of the transient doing the change, which
+ * are edited in place.
+ */
+
+import { height, rebalance, removeNode } from "./avl";
+
+export interface PNode<K, V> {
+    readonly key: K;
+    value: V;
+    left: PNode<K, V> | undefined;
+    right: PNode<K, V> | undefined;
+    height: number;
+    owner: object | undefined;
+}
+
+export interface TreeFns<K> {
+    equalityFn: (a: K, b: K) => boolean;
+    comparatorFn: (a: K, b: K) => number;
+}
+
+/**
+ * Finds the node whose key equals the given one. Equal keys are expected to compare equal; within
+ * a run that compares equal, keys are matched by `equalityFn`.
+ */
+export function find<K, V>(
+    node: PNode<K, V> | undefined,
+    key: K,
+    fns: TreeFns<K>,
+): PNode<K, V> | undefined {
+    while (node !== undefined) {
+        const order = fns.comparatorFn(key, node.key);
+        if (order < 0) {
+            node = node.left;
+        } else if (order > 0) {
+            node = node.right;
+        } else if (fns.equalityFn(node.key, key)) {
+            return node;
+        } else {
+            return find(node.left, key, fns) ?? find(node.right, key, fns);
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Records whether an operation found what it was looking for. Identity of the returned node
+ * can't tell, since a transient edits owned nodes in place.
+ */
+export interface Outcome {
+    found: boolean;
+}
+
+/**
+ * Sets the value of an existing key, if it is in the subtree.
+ */
+export function replace<K, V>(
+    node: PNode<K, V> | undefined,
+    key: K,
+    value: V,
+    fns: TreeFns<K>,
+    owner: object | undefined,
+    outcome: Outcome,
+): PNode<K, V> | undefined {
+    if (node === undefined) {
+        return undefined;
+    }
+    const order = fns.comparatorFn(key, node.key);
+    if (order === 0 && fns.equalityFn(node.key, key)) {
+        outcome.found = true;
+        if (Object.is(node.value, value)) {
+            return node;
+        }
+        const result = editable(node, owner);
+        result.value = value;
+        return result;
+    }
+    if (order <= 0) {
+        const left = replace(node.left, key, value, fns, owner, outcome);
+        if (outcome.found) {
+            if (left === node.left) {
+                return node;
+            }
+            const result = editable(node, owner);
+            result.left = left;
+            return result;
+        }
+    }
+    if (order >= 0) {
+        const right = replace(node.right, key, value, fns, owner, outcome);
+        if (outcome.found && right !== node.right) {
+            const result = editable(node, owner);
+            result.right = right;
+            return result;
+        }
+    }
+    return node;
+}
+
+/**
+ * Inserts a key that is not in the tree yet, after any keys that compare equal to it.
+ */
+export function insert<K, V>(
+    node: PNode<K, V> | undefined,
+    key: K,
+    value: V,
+    fns: TreeFns<K>,
+    owner: object | undefined,
+): PNode<K, V> {
+    if (node === undefined) {
+        return { key, value, left: undefined, right: undefined, height: 1, owner };
+    }
+    const result = editable(node, owner);
+    if (fns.comparatorFn(key, node.key) < 0) {
+        result.left = insert(node.left, key, value, fns, owner);
+    } else {
+        result.right = insert(node.right, key, value, fns, owner);
+    }
+    return rebalance(result, update, (node) => editable(node, owner));
+}
+
+/**
+ * Removes a key, if it is in the subtree.
+ */
+export function remove<K, V>(
+    node: PNode<K, V> | undefined,
+    key: K,
+    fns: TreeFns<K>,
+    owner: object | undefined,
+    outcome: Outcome,
+): PNode<K, V> | undefined {
+    if (node === undefined) {
+        return undefined;
+    }
+    const order = fns.comparatorFn(key, node.key);
+    if (order === 0 && fns.equalityFn(node.key, key)) {
+        outcome.found = true;
+        return removeNode(node, update, (node) => editable(node, owner));
+    }
+    if (order <= 0) {
+        const left = remove(node.left, key, fns, owner, outcome);
+        if (outcome.found) {
+            const result = editable(node, owner);
+            result.left = left;
+            return rebalance(result, update, (node) => editable(node, owner));
+        }
+    }
+    if (order >= 0) {
+        const right = remove(node.right, key, fns, owner, outcome);
+        if (outcome.found) {
+            const result = editable(node, owner);
+            result.right = right;
+            return rebalance(result, update, (node) => editable(node, owner));
+        }
+    }
+    return node;
+}
+
+export function* walk<K, V>(root: PNode<K, V> | undefined): IterableIterator<PNode<K, V>> {
+    const stack: Array<PNode<K, V>> = [];
+    let node = root;
+    while (node !== undefined || stack.length > 0) {
+        while (node !== undefined) {
+            stack.push(node);
+            node = node.left;
+        }
+        node = stack.pop()!;
+        yield node;
+        node = node.right;
+    }
+}
+
+function editable<K, V>(node: PNode<K, V>, owner: object | undefined): PNode<K, V> {
+    return owner !== undefined && node.owner === owner ? node : { ...node, owner };
+}
+
+function update<K, V>(node: PNode<K, V>): PNode<K, V> {
+    node.height = Math.max(height(node.left), height(node.right)) + 1;
+    return node;
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "bun:test";
+import { PrefixMap } from "./PrefixMap";
+import { PrefixSet } from "./PrefixSet";
+import { defaultComparatorFn } from "./shared";
+
+const routes: Array<[string, string]> = [
+    ["/", "root"],
+    ["/users", "users"],
+    ["/users/settings", "settings"],
+    ["/user", "user"],
+    ["/about", "about"],
+];
+
+describe("PrefixMap", () => {
+    it("should get and set like a Map", () => {
+        const map = new PrefixMap(routes);
+        expect(map.size).toBe(5);
+        expect(map.get("/users")).toBe("users");
+        expect(map.get("/use")).toBeUndefined();
+        expect(map.has("/user")).toBe(true);
+        map.set("/user", "me");
+        expect(map.get("/user")).toBe("me");
+        expect(map.size).toBe(5);
+    });
+
+    it("should iterate keys in defaultComparatorFn order", () => {
+        const keys = ["b", "", "ab", "a", "B", "abc", "é", "aa", "a b"];
+        const map = new PrefixMap(keys.map((k): [string, number] => [k, k.length]));
+        expect(Array.from(map.keys())).toEqual([...keys].sort(defaultComparatorFn));
+        expect(Array.from(map.values())).toEqual(
+            [...keys].sort(defaultComparatorFn).map((k) => k.length),
+        );
+    });
+
+    it("should list entries and keys with a prefix", () => {
+        const map = new PrefixMap(routes);
+        expect(Array.from(map.getPrefixed("/us"))).toEqual([
+            ["/user", "user"],
+            ["/users", "users"],
+            ["/users/settings", "settings"],
+        ]);
+        expect(map.keysWithPrefix("/user", 2)).toEqual(["/user", "/users"]);
+        expect(map.keysWithPrefix("/user", 0)).toEqual([]);
+        expect(map.keysWithPrefix("/x")).toEqual([]);
+        expect(map.keysWithPrefix("")).toHaveLength(5);
+    });
+
+    it("should find the longest key that prefixes a string", () => {
+        const map = new PrefixMap(routes);
+        expect(map.longestPrefixOf("/users/settings/theme")).toBe("/users/settings");
+        expect(map.longestPrefixOf("/users/profile")).toBe("/users");
+        expect(map.longestPrefixOf("/contact")).toBe("/");
+        expect(map.longestPrefixOf("contact")).toBeUndefined();
+    });
+
+    it("should delete keys and keep finding the rest", () => {
+        const map = new PrefixMap(routes);
+        expect(map.delete("/users")).toBe(true);
+        expect(map.delete("/users")).toBe(false);
+        expect(map.delete("/use")).toBe(false);
+        expect(map.get("/users/settings")).toBe("settings");
+        expect(map.delete("/user")).toBe(true);
+        expect(map.keysWithPrefix("/u")).toEqual(["/users/settings"]);
+        expect(map.longestPrefixOf("/users/x")).toBe("/");
+        map.set("/users", "again");
+        expect(map.keysWithPrefix("/u")).toEqual(["/users", "/users/settings"]);
+    });
+
+    it("should delete every key with a prefix", () => {
+        const map = new PrefixMap(routes);
+        expect(map.deletePrefix("/use")).toBe(3);
+        expect(Array.from(map.keys())).toEqual(["/", "/about"]);
+        expect(map.deletePrefix("/users")).toBe(0);
+        expect(map.deletePrefix("")).toBe(2);
+        expect(map.size).toBe(0);
+    });
+
+    it("should normalize keys and prefixes", () => {
+        const map = new PrefixMap<number>(
+            [
+                ["Help", 1],
+                ["HELLO", 2],
+                ["world", 3],
+            ],
+            (key) => key.toLowerCase(),
+        );
+        expect(map.get("help")).toBe(1);
+        map.set("hello", 4);
+        expect(map.size).toBe(3);
+        expect(Array.from(map)).toEqual([
+            ["HELLO", 4],
+            ["Help", 1],
+            ["world", 3],
+        ]);
+        expect(map.keysWithPrefix("HEL")).toEqual(["HELLO", "Help"]);
+        expect(map.longestPrefixOf("WORLDS")).toBe("world");
+    });
+});
+
+describe("PrefixSet", () => {
+    it("should answer prefix queries over its strings", () => {
+        const set = new PrefixSet(["commit", "checkout", "cherry-pick", "clone", "checkout"]);
+        expect(set.size).toBe(4);
+        expect(Array.from(set.getPrefixed("ch"))).toEqual(["checkout", "cherry-pick"]);
+        expect(set.keysWithPrefix("c", 2)).toEqual(["checkout", "cherry-pick"]);
+        expect(set.longestPrefixOf("clone-all")).toBe("clone");
+        expect(set.deletePrefix("che")).toBe(2);
+        expect(Array.from(set)).toEqual(["clone", "commit"]);
+    });
+
+    it("should normalize strings", () => {
+        const set = new PrefixSet(["Apple"], (value) => value.toLowerCase());
+        set.add("APPLE");
+        expect(Array.from(set)).toEqual(["Apple"]);
+        expect(set.has("apple")).toBe(true);
+        expect(set.delete("aPPle")).toBe(true);
+        expect(set.size).toBe(0);
+    });
+});
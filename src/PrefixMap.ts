@@ -0,0 +1,118 @@
+import { Trie } from "./Trie";
+
+/**
+ * A Map from strings to values on a compressed trie, for prefix queries without scanning every
+ * key. Keys iterate in the order of `defaultComparatorFn`.
+ */
+export class PrefixMap<V> extends Map<string, V> {
+    private trie = new Trie<V>();
+    private normalize: (key: string) => string;
+
+    /**
+     * Keys, and the prefixes given to queries, are passed through `normalize` before they are
+     * looked up, so that for example `(key) => key.toLowerCase()` makes the map case-insensitive.
+     * Keys are reported as they were first given, and sorted by their normalized form.
+     */
+    constructor(entries?: Iterable<[string, V]>, normalize?: (key: string) => string) {
+        super();
+        this.normalize = normalize ?? ((key) => key);
+        if (entries) {
+            for (const [key, value] of entries) {
+                this.set(key, value);
+            }
+        }
+    }
+
+    get(key: string): V | undefined {
+        return this.trie.get(this.normalize(key))?.value;
+    }
+
+    has(key: string): boolean {
+        return this.trie.get(this.normalize(key)) !== undefined;
+    }
+
+    set(key: string, value: V): this {
+        this.trie.set(this.normalize(key), key, value);
+        return this;
+    }
+
+    delete(key: string): boolean {
+        return this.trie.delete(this.normalize(key)) !== undefined;
+    }
+
+    clear(): void {
+        this.trie.clear();
+    }
+
+    get size(): number {
+        return this.trie.size;
+    }
+
+    /**
+     * Iterates the entries whose keys start with the prefix, in order.
+     */
+    *getPrefixed(prefix: string): IterableIterator<[string, V]> {
+        for (const { key, value } of this.trie.entries(this.normalize(prefix))) {
+            yield [key, value];
+        }
+    }
+
+    /**
+     * Returns up to `limit` keys that start with the prefix, in order, such as completions for a
+     * partly typed word.
+     */
+    keysWithPrefix(prefix: string, limit = Infinity): Array<string> {
+        const result: Array<string> = [];
+        if (limit <= 0) {
+            return result;
+        }
+        for (const { key } of this.trie.entries(this.normalize(prefix))) {
+            result.push(key);
+            if (result.length >= limit) {
+                break;
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Returns the longest key that is a prefix of the given string, such as the route that
+     * handles a path, or undefined if there is none.
+     */
+    longestPrefixOf(str: string): string | undefined {
+        return this.trie.longestPrefixOf(this.normalize(str))?.key;
+    }
+
+    /**
+     * Removes every key that starts with the prefix.
+     * @returns how many keys were removed
+     */
+    deletePrefix(prefix: string): number {
+        return this.trie.deletePrefix(this.normalize(prefix));
+    }
+
+    keys(): IterableIterator<string> {
+        return Array.from(this.trie.entries(), ({ key }) => key).values();
+    }
+
+    values(): IterableIterator<V> {
+        return Array.from(this.trie.entries(), ({ value }) => value).values();
+    }
+
+    entries(): IterableIterator<[string, V]> {
+        return Array.from(this.trie.entries(), ({ key, value }): [string, V] => [
+            key,
+            value,
+        ]).values();
+    }
+
+    forEach(fn: (value: V, key: string, map: this) => void): void {
+        for (const [k, v] of this.entries()) {
+            fn(v, k, this);
+        }
+    }
+
+    [Symbol.iterator](): IterableIterator<[string, V]> {
+        return this.entries();
+    }
+}
@@ -0,0 +1,102 @@
+import { PrefixMap } from "./PrefixMap";
+
+/**
+ * A Set of strings on a compressed trie, for prefix queries without scanning every string.
+ * Strings iterate in the order of `defaultComparatorFn`.
+ */
+export class PrefixSet extends Set<string> {
+    private map: PrefixMap<true>;
+
+    /**
+     * Strings, and the prefixes given to queries, are passed through `normalize` like the keys of
+     * a PrefixMap.
+     */
+    constructor(iterable?: Iterable<string>, normalize?: (value: string) => string) {
+        super();
+        this.map = new PrefixMap(undefined, normalize);
+        if (iterable) {
+            for (const value of iterable) {
+                this.add(value);
+            }
+        }
+    }
+
+    add(value: string): this {
+        if (!this.map.has(value)) {
+            this.map.set(value, true);
+        }
+        return this;
+    }
+
+    has(value: string): boolean {
+        return this.map.has(value);
+    }
+
+    delete(value: string): boolean {
+        return this.map.delete(value);
+    }
+
+    clear(): void {
+        this.map.clear();
+    }
+
+    get size(): number {
+        return this.map.size;
+    }
+
+    /**
+     * Iterates the strings that start with the prefix, in order.
+     */
+    *getPrefixed(prefix: string): IterableIterator<string> {
+        for (const [value] of this.map.getPrefixed(prefix)) {
+            yield value;
+        }
+    }
+
+    /**
+     * Returns up to `limit` strings that start with the prefix, in order.
+     */
+    keysWithPrefix(prefix: string, limit?: number): Array<string> {
+        return this.map.keysWithPrefix(prefix, limit);
+    }
+
+    /**
+     * Returns the longest string in the set that is a prefix of the given one, or undefined if
+     * there is none.
+     */
+    longestPrefixOf(str: string): string | undefined {
+        return this.map.longestPrefixOf(str);
+    }
+
+    /**
+     * Removes every string that starts with the prefix.
+     * @returns how many strings were removed
+     */
+    deletePrefix(prefix: string): number {
+        return this.map.deletePrefix(prefix);
+    }
+
+    values(): IterableIterator<string> {
+        return this.map.keys();
+    }
+
+    keys(): IterableIterator<string> {
+        return this.values();
+    }
+
+    *entries(): IterableIterator<[string, string]> {
+        for (const value of this.values()) {
+            yield [value, value];
+        }
+    }
+
+    forEach(fn: (value: string, value2: string, set: this) => void): void {
+        for (const value of this.values()) {
+            fn(value, value, this);
+        }
+    }
+
+    [Symbol.iterator](): IterableIterator<string> {
+        return this.values();
+    }
+}
@@ -0,0 +1,172 @@
+import { describe, it, expect } from "bun:test";
+import { PriorityQueue } from "./PriorityQueue";
+import { Ordering } from "./shared";
+
+class Task {
+    constructor(
+        public name: string,
+        public priority: number,
+    ) {}
+
+    cmp(other: Task): Ordering {
+        return this.priority < other.priority
+            ? Ordering.Less
+            : this.priority > other.priority
+              ? Ordering.Greater
+              : Ordering.Equal;
+    }
+}
+
+describe("PriorityQueue", () => {
+    describe("push, pop and peek", () => {
+        it("should pop items in ascending order by default", () => {
+            const queue = new PriorityQueue<number>();
+            for (const n of [5, 1, 4, 2, 3]) {
+                queue.push(n);
+            }
+            expect(queue.size).toBe(5);
+            expect(queue.peek()).toBe(1);
+            expect([queue.pop(), queue.pop(), queue.pop()]).toEqual([1, 2, 3]);
+            expect(queue.size).toBe(2);
+        });
+
+        it("should return undefined when empty", () => {
+            const queue = new PriorityQueue<number>();
+            expect(queue.pop()).toBeUndefined();
+            expect(queue.peek()).toBeUndefined();
+            expect(queue.isEmpty()).toBe(true);
+        });
+
+        it("should pop the highest item first in max mode", () => {
+            const queue = new PriorityQueue([3, 1, 2], undefined, "max");
+            expect(Array.from(queue.drain())).toEqual([3, 2, 1]);
+        });
+
+        it("should order Cmp implementers without a comparator", () => {
+            const queue = new PriorityQueue([new Task("b", 2), new Task("a", 1), new Task("c", 3)]);
+            expect(queue.pop()!.name).toBe("a");
+        });
+
+        it("should use a supplied comparator", () => {
+            const queue = new PriorityQueue(["ccc", "a", "bb"], (a, b) => a.length - b.length);
+            expect(Array.from(queue.drain())).toEqual(["a", "bb", "ccc"]);
+        });
+    });
+
+    describe("heapify", () => {
+        it("should build the heap from an iterable", () => {
+            const values = Array.from({ length: 200 }, (_, i) => (i * 37) % 200);
+            const queue = new PriorityQueue(values);
+            expect(queue.size).toBe(200);
+            expect(Array.from(queue.drain())).toEqual(values.slice().sort((a, b) => a - b));
+            expect(queue.isEmpty()).toBe(true);
+        });
+    });
+
+    describe("pushPop", () => {
+        it("should return the pushed item when it comes first", () => {
+            const queue = new PriorityQueue([5, 6]);
+            expect(queue.pushPop(1)).toBe(1);
+            expect(queue.size).toBe(2);
+        });
+
+        it("should return the top and keep the pushed item otherwise", () => {
+            const queue = new PriorityQueue([5, 6]);
+            expect(queue.pushPop(7)).toBe(5);
+            expect(Array.from(queue.drain())).toEqual([6, 7]);
+        });
+    });
+
+    describe("handles", () => {
+        it("should move an item after updatePriority", () => {
+            const queue = new PriorityQueue<Task>();
+            queue.push(new Task("a", 1));
+            const b = queue.push(new Task("b", 5));
+            queue.push(new Task("c", 3));
+            queue.updatePriority(b, new Task("b", 0));
+            expect(queue.peek()!.name).toBe("b");
+            b.value.priority = 10;
+            queue.updatePriority(b);
+            expect(Array.from(queue.drain(), (task) => task.name)).toEqual(["a", "c", "b"]);
+        });
+
+        it("should remove an item by handle", () => {
+            const queue = new PriorityQueue<number>();
+            queue.push(1);
+            const two = queue.push(2);
+            queue.push(3);
+            expect(queue.remove(two)).toBe(true);
+            expect(queue.remove(two)).toBe(false);
+            expect(Array.from(queue.drain())).toEqual([1, 3]);
+        });
+
+        it("should reject handles of popped items", () => {
+            const queue = new PriorityQueue<number>();
+            const one = queue.push(1);
+            queue.pop();
+            expect(() => queue.updatePriority(one, 0)).toThrow();
+        });
+
+        it("should support Dijkstra-style decrease-key", () => {
+            const distances = new Map<string, number>([
+                ["a", 0],
+                ["b", Infinity],
+                ["c", Infinity],
+            ]);
+            const edges: Record<string, Array<[string, number]>> = {
+                a: [
+                    ["b", 4],
+                    ["c", 1],
+                ],
+                b: [],
+                c: [["b", 2]],
+            };
+            const queue = new PriorityQueue<string>(
+                undefined,
+                (x, y) => distances.get(x)! - distances.get(y)!,
+            );
+            const handles = new Map(Array.from(distances.keys(), (k) => [k, queue.push(k)]));
+            const order: string[] = [];
+            for (const node of queue.drain()) {
+                order.push(node);
+                for (const [next, weight] of edges[node]!) {
+                    const distance = distances.get(node)! + weight;
+                    if (distance < distances.get(next)!) {
+                        distances.set(next, distance);
+                        queue.updatePriority(handles.get(next)!);
+                    }
+                }
+            }
+            expect(order).toEqual(["a", "c", "b"]);
+            expect(distances.get("b")).toBe(3);
+        });
+    });
+
+    describe("meld", () => {
+        it("should move every item into the receiver", () => {
+            const a = new PriorityQueue([1, 5]);
+            const b = new PriorityQueue<number>();
+            const three = b.push(3);
+            b.push(0);
+            a.meld(b);
+            expect(b.size).toBe(0);
+            expect(a.size).toBe(4);
+            a.updatePriority(three, 6);
+            expect(Array.from(a.drain())).toEqual([0, 1, 5, 6]);
+        });
+    });
+
+    describe("iteration", () => {
+        it("should iterate without removing items", () => {
+            const queue = new PriorityQueue([3, 1, 2]);
+            expect(Array.from(queue).sort()).toEqual([1, 2, 3]);
+            expect(queue.size).toBe(3);
+        });
+
+        it("should clear", () => {
+            const queue = new PriorityQueue([3, 1, 2]);
+            queue.clear();
+            expect(queue.size).toBe(0);
+        });
+    });
+});
@@ -0,0 +1,235 @@
+import { defaultComparatorFn } from "./shared";
+
+/**
+ * Refers to an item in a PriorityQueue, so its priority can be updated or it can be removed.
+ */
+export interface PriorityQueueHandle<T> {
+    readonly value: T;
+}
+
+interface Slot<T> {
+    value: T;
+    index: number;
+    queue: PriorityQueue<T> | undefined;
+}
+
+/**
+ * A binary heap. In "min" order (the default) the item that compares lowest comes out first, in
+ * "max" order the highest.
+ */
+export class PriorityQueue<T> {
+    private heap: Array<Slot<T>> = [];
+    private compareFn: (a: T, b: T) => number;
+
+    constructor(
+        iterable?: Iterable<T>,
+        comparatorFn?: (a: T, b: T) => number,
+        order: "min" | "max" = "min",
+    ) {
+        const cmp = comparatorFn ?? defaultComparatorFn;
+        this.compareFn = order === "max" ? (a, b) => cmp(b, a) : cmp;
+        if (iterable) {
+            for (const value of iterable) {
+                this.heap.push({ value, index: this.heap.length, queue: this });
+            }
+            this.heapify();
+        }
+    }
+
+    get size(): number {
+        return this.heap.length;
+    }
+
+    isEmpty(): boolean {
+        return this.heap.length === 0;
+    }
+
+    /**
+     * Adds an item.
+     * @returns a handle for updating or removing the item later
+     */
+    push(value: T): PriorityQueueHandle<T> {
+        const slot: Slot<T> = { value, index: this.heap.length, queue: this };
+        this.heap.push(slot);
+        this.siftUp(slot.index);
+        return slot;
+    }
+
+    /**
+     * Removes and returns the item that comes first, or undefined if the queue is empty.
+     */
+    pop(): T | undefined {
+        const top = this.heap[0];
+        if (top === undefined) {
+            return undefined;
+        }
+        this.removeAt(0);
+        return top.value;
+    }
+
+    /**
+     * Returns the item that comes first without removing it.
+     */
+    peek(): T | undefined {
+        return this.heap[0]?.value;
+    }
+
+    /**
+     * Adds an item, then removes and returns the item that comes first. Faster than a push
+     * followed by a pop.
+     */
+    pushPop(value: T): T {
+        const top = this.heap[0];
+        if (top === undefined || this.compareFn(value, top.value) <= 0) {
+            return value;
+        }
+        top.queue = undefined;
+        this.heap[0] = { value, index: 0, queue: this };
+        this.siftDown(0);
+        return top.value;
+    }
+
+    /**
+     * Moves the item to its new place after its priority changed.
+     * @param handle the handle returned by push
+     * @param value the item to replace it with, if the item wasn't changed in place
+     */
+    updatePriority(handle: PriorityQueueHandle<T>, value?: T): void {
+        const slot = this.slotOf(handle);
+        if (slot === undefined) {
+            throw new Error("The handle does not refer to an item in this queue");
+        }
+        if (value !== undefined) {
+            slot.value = value;
+        }
+        this.siftDown(this.siftUp(slot.index));
+    }
+
+    /**
+     * Removes the item the handle refers to.
+     * @returns true if the item was in this queue
+     */
+    remove(handle: PriorityQueueHandle<T>): boolean {
+        const slot = this.slotOf(handle);
+        if (slot === undefined) {
+            return false;
+        }
+        this.removeAt(slot.index);
+        return true;
+    }
+
+    /**
+     * Moves every item of the other queue into this one, leaving the other queue empty. Handles
+     * to the moved items stay valid and now refer to this queue.
+     */
+    meld(other: PriorityQueue<T>): this {
+        if (other === this) {
+            return this;
+        }
+        for (const slot of other.heap) {
+            slot.index = this.heap.length;
+            slot.queue = this;
+            this.heap.push(slot);
+        }
+        other.heap = [];
+        this.heapify();
+        return this;
+    }
+
+    clear(): void {
+        for (const slot of this.heap) {
+            slot.queue = undefined;
+        }
+        this.heap = [];
+    }
+
+    /**
+     * Removes the items one by one, yielding them in priority order.
+     */
+    *drain(): IterableIterator<T> {
+        while (this.heap.length > 0) {
+            yield this.pop()!;
+        }
+    }
+
+    /**
+     * Iterates the items without removing them, in no particular order. Use drain() to get them
+     * in priority order.
+     */
+    *values(): IterableIterator<T> {
+        for (const slot of this.heap) {
+            yield slot.value;
+        }
+    }
+
+    [Symbol.iterator](): IterableIterator<T> {
+        return this.values();
+    }
+
+    private slotOf(handle: PriorityQueueHandle<T>): Slot<T> | undefined {
+        const slot = handle as Slot<T>;
+        return slot.queue === this && this.heap[slot.index] === slot ? slot : undefined;
+    }
+
+    private removeAt(index: number): void {
+        const removed = this.heap[index]!;
+        const last = this.heap.pop()!;
+        removed.queue = undefined;
+        if (last !== removed) {
+            last.index = index;
+            this.heap[index] = last;
+            this.siftDown(this.siftUp(index));
+        }
+    }
+
+    private heapify(): void {
+        for (let i = (this.heap.length >> 1) - 1; i >= 0; i--) {
+            this.siftDown(i);
+        }
+    }
+
+    private siftUp(index: number): number {
+        const slot = this.heap[index]!;
+        while (index > 0) {
+            const parentIndex = (index - 1) >> 1;
+            const parent = this.heap[parentIndex]!;
+            if (this.compareFn(slot.value, parent.value) >= 0) {
+                break;
+            }
+            parent.index = index;
+            this.heap[index] = parent;
+            index = parentIndex;
+        }
+        slot.index = index;
+        this.heap[index] = slot;
+        return index;
+    }
+
+    private siftDown(index: number): number {
+        const slot = this.heap[index]!;
+        const length = this.heap.length;
+        while (true) {
+            let childIndex = 2 * index + 1;
+            if (childIndex >= length) {
+                break;
+            }
+            const right = childIndex + 1;
+            if (
+                right < length &&
+                this.compareFn(this.heap[right]!.value, this.heap[childIndex]!.value) < 0
+            ) {
+                childIndex = right;
+            }
+            const child = this.heap[childIndex]!;
+            if (this.compareFn(child.value, slot.value) >= 0) {
+                break;
+            }
+            child.index = index;
+            this.heap[index] = child;
+            index = childIndex;
+        }
+        slot.index = index;
+        this.heap[index] = slot;
+        return index;
+    }
+}
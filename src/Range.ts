@@ -0,0 +1,19 @@
+/**
+ * A half-open range of keys, from `lo` included to `hi` excluded.
+ */
+export interface Range<K> {
+    lo: K;
+    hi: K;
+}
+
+/**
+ * Throws a RangeError if the range's lower end is above its upper end.
+ * @returns true if the range is empty
+ */
+export function checkRange<K>(range: Range<K>, comparatorFn: (a: K, b: K) => number): boolean {
+    const order = comparatorFn(range.lo, range.hi);
+    if (order > 0) {
+        throw new RangeError("The lower end of a range must not be above its upper end");
+    }
+    return order === 0;
+}
@@ -0,0 +1,201 @@
+import { describe, it, expect } from "bun:test";
+import { IntervalTree } from "./IntervalTree";
+import { RangeMap } from "./RangeMap";
+import { deriveCmp, type Cmp } from "./shared";
+
+class Version {
+    constructor(
+        public major: number,
+        public minor: number,
+    ) {}
+}
+interface Version extends Cmp<Version> {}
+deriveCmp(Version, ["major", "minor"]);
+
+const v = (major: number, minor: number) => new Version(major, minor);
+
+describe("RangeMap", () => {
+    it("should look up the range containing a key", () => {
+        const tiers = new RangeMap<number, string>([
+            [{ lo: 0, hi: 10 }, "small"],
+            [{ lo: 10, hi: 100 }, "medium"],
+            [{ lo: 200, hi: 300 }, "large"],
+        ]);
+        expect(tiers.get(0)).toBe("small");
+        expect(tiers.get(9.5)).toBe("small");
+        expect(tiers.get(10)).toBe("medium");
+        expect(tiers.get(100)).toBeUndefined();
+        expect(tiers.get(-1)).toBeUndefined();
+        expect(tiers.has(250)).toBe(true);
+        expect(tiers.getEntry(250)).toEqual([{ lo: 200, hi: 300 }, "large"]);
+        expect(tiers.getEntry(150)).toBeUndefined();
+    });
+
+    it("should split and trim the ranges a put overlaps", () => {
+        const map = new RangeMap<number, string>([[{ lo: 0, hi: 100 }, "a"]]);
+        map.put({ lo: 40, hi: 60 }, "b");
+        expect(Array.from(map)).toEqual([
+            [{ lo: 0, hi: 40 }, "a"],
+            [{ lo: 40, hi: 60 }, "b"],
+            [{ lo: 60, hi: 100 }, "a"],
+        ]);
+        map.put({ lo: 50, hi: 80 }, "c");
+        map.put({ lo: 0, hi: 10 }, "d");
+        expect(Array.from(map)).toEqual([
+            [{ lo: 0, hi: 10 }, "d"],
+            [{ lo: 10, hi: 40 }, "a"],
+            [{ lo: 40, hi: 50 }, "b"],
+            [{ lo: 50, hi: 80 }, "c"],
+            [{ lo: 80, hi: 100 }, "a"],
+        ]);
+        map.put({ lo: -5, hi: 200 }, "e");
+        expect(Array.from(map)).toEqual([[{ lo: -5, hi: 200 }, "e"]]);
+    });
+
+    it("should coalesce adjacent ranges with equal values", () => {
+        const map = new RangeMap<number, string>();
+        map.put({ lo: 0, hi: 10 }, "a");
+        map.put({ lo: 20, hi: 30 }, "a");
+        expect(map.size).toBe(2);
+        map.put({ lo: 10, hi: 20 }, "a");
+        expect(Array.from(map)).toEqual([[{ lo: 0, hi: 30 }, "a"]]);
+        map.put({ lo: 10, hi: 20 }, "b");
+        expect(map.size).toBe(3);
+        map.put({ lo: 5, hi: 25 }, "a");
+        expect(Array.from(map)).toEqual([[{ lo: 0, hi: 30 }, "a"]]);
+    });
+
+    it("should coalesce with a custom value equality", () => {
+        const map = new RangeMap<number, { rate: number }>(
+            [
+                [{ lo: 0, hi: 5 }, { rate: 1 }],
+                [{ lo: 5, hi: 9 }, { rate: 1 }],
+            ],
+            undefined,
+            (a, b) => a.rate === b.rate,
+        );
+        expect(Array.from(map.keys())).toEqual([{ lo: 0, hi: 9 }]);
+    });
+
+    it("should remove ranges and split around the hole", () => {
+        const map = new RangeMap<number, string>([[{ lo: 0, hi: 10 }, "a"]]);
+        expect(map.remove({ lo: 3, hi: 5 })).toBe(true);
+        expect(map.remove({ lo: 3, hi: 5 })).toBe(false);
+        expect(Array.from(map.keys())).toEqual([
+            { lo: 0, hi: 3 },
+            { lo: 5, hi: 10 },
+        ]);
+        expect(map.get(4)).toBeUndefined();
+        expect(map.remove({ lo: -1, hi: 20 })).toBe(true);
+        expect(map.isEmpty()).toBe(true);
+    });
+
+    it("should ignore empty ranges and reject inverted ones", () => {
+        const map = new RangeMap<number, string>();
+        map.put({ lo: 5, hi: 5 }, "a");
+        expect(map.size).toBe(0);
+        expect(() => map.put({ lo: 5, hi: 4 }, "a")).toThrow(RangeError);
+        expect(() => map.remove({ lo: 5, hi: 4 })).toThrow(RangeError);
+    });
+
+    it("should compare Cmp endpoints", () => {
+        const support = new RangeMap<Version, string>();
+        support.put({ lo: v(1, 0), hi: v(2, 0) }, "legacy");
+        support.put({ lo: v(2, 0), hi: v(3, 0) }, "current");
+        support.put({ lo: v(1, 5), hi: v(2, 1) }, "security");
+        expect(support.get(v(1, 4))).toBe("legacy");
+        expect(support.get(v(2, 0))).toBe("security");
+        expect(support.get(v(2, 1))).toBe("current");
+        expect(support.get(v(3, 0))).toBeUndefined();
+        expect(Array.from(support.values())).toEqual(["legacy", "security", "current"]);
+    });
+});
+
+describe("IntervalTree", () => {
+    const meetings = (): IntervalTree<number, string> =>
+        new IntervalTree([
+            [{ lo: 9, hi: 10 }, "standup"],
+            [{ lo: 9, hi: 12 }, "workshop"],
+            [{ lo: 11, hi: 13 }, "review"],
+            [{ lo: 14, hi: 15 }, "1:1"],
+            [{ lo: 12, hi: 17 }, "offsite"],
+        ]);
+
+    it("should find the ranges containing a key", () => {
+        const tree = meetings();
+        expect(tree.stab(9).map(([, name]) => name)).toEqual(["standup", "workshop"]);
+        expect(tree.stab(10).map(([, name]) => name)).toEqual(["workshop"]);
+        expect(tree.stab(12).map(([, name]) => name)).toEqual(["review", "offsite"]);
+        expect(tree.stab(17)).toEqual([]);
+        expect(tree.stab(8)).toEqual([]);
+    });
+
+    it("should find the ranges overlapping a range", () => {
+        const tree = meetings();
+        expect(tree.overlapping({ lo: 10, hi: 12 }).map(([, name]) => name)).toEqual([
+            "workshop",
+            "review",
+        ]);
+        expect(tree.overlapping({ lo: 13, hi: 14 })).toEqual([[{ lo: 12, hi: 17 }, "offsite"]]);
+        expect(tree.overlapping({ lo: 17, hi: 20 })).toEqual([]);
+        expect(tree.overlapping({ lo: 10, hi: 10 })).toEqual([]);
+        expect(() => tree.overlapping({ lo: 2, hi: 1 })).toThrow(RangeError);
+    });
+
+    it("should agree with a linear scan", () => {
+        const ranges: Array<[{ lo: number; hi: number }, number]> = [];
+        let seed = 7;
+        const random = () => (seed = (seed * 16807) % 2147483647) % 100;
+        const tree = new IntervalTree<number, number>();
+        for (let i = 0; i < 300; i++) {
+            const lo = random();
+            const range = { lo, hi: lo + random() / 4 };
+            ranges.push([range, i]);
+            tree.add(range, i);
+        }
+        for (let i = 0; i < 100; i += 2) {
+            expect(tree.delete(ranges[i]![0], i)).toBe(true);
+        }
+        const rest = ranges.filter(([, i]) => i % 2 === 1 || i >= 100);
+        expect(tree.size).toBe(rest.length);
+        for (let p = 0; p < 120; p += 3) {
+            const expected = rest
+                .filter(([{ lo, hi }]) => lo <= p && p < hi)
+                .map(([, i]) => i)
+                .sort((a, b) => a - b);
+            const actual = tree
+                .stab(p)
+                .map(([, i]) => i)
+                .sort((a, b) => a - b);
+            expect(actual).toEqual(expected);
+        }
+        const expected = rest.filter(([{ lo, hi }]) => lo < 60 && hi > 40).length;
+        expect(tree.overlapping({ lo: 40, hi: 60 })).toHaveLength(expected);
+        const los = Array.from(tree, ([{ lo }]) => lo);
+        expect(los).toEqual([...los].sort((a, b) => a - b));
+    });
+
+    it("should delete one occurrence of a range", () => {
+        const tree = new IntervalTree<number, string>([
+            [{ lo: 1, hi: 5 }, "a"],
+            [{ lo: 1, hi: 5 }, "b"],
+            [{ lo: 1, hi: 3 }, "c"],
+        ]);
+        expect(tree.delete({ lo: 1, hi: 5 }, "b")).toBe(true);
+        expect(tree.delete({ lo: 1, hi: 5 }, "b")).toBe(false);
+        expect(tree.delete({ lo: 1, hi: 4 })).toBe(false);
+        expect(tree.delete({ lo: 1, hi: 5 })).toBe(true);
+        expect(Array.from(tree)).toEqual([[{ lo: 1, hi: 3 }, "c"]]);
+        tree.clear();
+        expect(tree.isEmpty()).toBe(true);
+    });
+
+    it("should compare Cmp endpoints", () => {
+        const tree = new IntervalTree<Version, string>([
+            [{ lo: v(1, 0), hi: v(1, 10) }, "CVE-1"],
+            [{ lo: v(1, 8), hi: v(2, 3) }, "CVE-2"],
+        ]);
+        expect(tree.stab(v(1, 9)).map(([, id]) => id)).toEqual(["CVE-1", "CVE-2"]);
+        expect(tree.stab(v(2, 0)).map(([, id]) => id)).toEqual(["CVE-2"]);
+    });
+});
@@ -0,0 +1,185 @@
+import { checkRange, type Range } from "./Range";
+import { defaultComparatorFn, defaultEqualityFn } from "./shared";
+import { SortedTree } from "./SortedTree";
+
+interface Span<K, V> {
+    lo: K;
+    hi: K;
+    value: V;
+}
+
+/**
+ * A map from non-overlapping half-open ranges of keys to values. Putting a range splits or trims
+ * the ranges it overlaps, and adjacent ranges with equal values are coalesced into one.
+ */
+export class RangeMap<K, V> {
+    private comparatorFn: (a: K, b: K) => number;
+    private valueEqualityFn: (a: V, b: V) => boolean;
+    private tree: SortedTree<Span<K, V>>;
+
+    /**
+     * Range ends are compared with `comparatorFn`, values with `valueEqualityFn` when deciding
+     * whether adjacent ranges can be coalesced.
+     */
+    constructor(
+        entries?: Iterable<[Range<K>, V]>,
+        comparatorFn?: (a: K, b: K) => number,
+        valueEqualityFn?: (a: V, b: V) => boolean,
+    ) {
+        this.comparatorFn = comparatorFn ?? defaultComparatorFn;
+        this.valueEqualityFn = valueEqualityFn ?? defaultEqualityFn;
+        this.tree = new SortedTree((a, b) => this.comparatorFn(a.lo, b.lo));
+        if (entries) {
+            for (const [range, value] of entries) {
+                this.put(range, value);
+            }
+        }
+    }
+
+    /**
+     * The number of ranges, after coalescing.
+     */
+    get size(): number {
+        return this.tree.size;
+    }
+
+    isEmpty(): boolean {
+        return this.tree.size === 0;
+    }
+
+    /**
+     * Returns the value of the range that contains the key, or undefined if there is none.
+     */
+    get(key: K): V | undefined {
+        return this.spanAt(key)?.value;
+    }
+
+    /**
+     * Returns the range that contains the key with its value, or undefined if there is none.
+     */
+    getEntry(key: K): [Range<K>, V] | undefined {
+        const span = this.spanAt(key);
+        return span !== undefined ? entryOf(span) : undefined;
+    }
+
+    has(key: K): boolean {
+        return this.spanAt(key) !== undefined;
+    }
+
+    /**
+     * Maps every key in the range to the value, replacing whatever the range overlaps.
+     * @throws RangeError if the range's lower end is above its upper end
+     */
+    put(range: Range<K>, value: V): this {
+        if (checkRange(range, this.comparatorFn)) {
+            return this;
+        }
+        this.cut(range);
+        let span: Span<K, V> = { lo: range.lo, hi: range.hi, value };
+        const before = this.tree.floor(span, false);
+        if (before !== undefined && this.touches(before, span)) {
+            this.tree.delete(before);
+            span = { lo: before.lo, hi: span.hi, value: before.value };
+        }
+        const after = this.tree.ceiling(span);
+        if (after !== undefined && this.touches(span, after)) {
+            this.tree.delete(after);
+            span = { lo: span.lo, hi: after.hi, value: span.value };
+        }
+        this.tree.insert(span);
+        return this;
+    }
+
+    /**
+     * Unmaps every key in the range, splitting or trimming the ranges it overlaps.
+     * @returns true if anything was unmapped
+     */
+    remove(range: Range<K>): boolean {
+        if (checkRange(range, this.comparatorFn)) {
+            return false;
+        }
+        return this.cut(range);
+    }
+
+    clear(): void {
+        this.tree.clear();
+    }
+
+    /**
+     * Iterates the ranges with their values, in order.
+     */
+    *entries(): IterableIterator<[Range<K>, V]> {
+        for (const span of Array.from(this.tree.values())) {
+            yield entryOf(span);
+        }
+    }
+
+    *keys(): IterableIterator<Range<K>> {
+        for (const [range] of this.entries()) {
+            yield range;
+        }
+    }
+
+    *values(): IterableIterator<V> {
+        for (const [_, value] of this.entries()) {
+            yield value;
+        }
+    }
+
+    [Symbol.iterator](): IterableIterator<[Range<K>, V]> {
+        return this.entries();
+    }
+
+    private spanAt(key: K): Span<K, V> | undefined {
+        const span = this.tree.floor(probe(key));
+        return span !== undefined && this.comparatorFn(key, span.hi) < 0 ? span : undefined;
+    }
+
+    /**
+     * Removes the part of every span that overlaps the range.
+     * @returns true if any span overlapped
+     */
+    private cut(range: Range<K>): boolean {
+        const cmp = this.comparatorFn;
+        const overlapping: Array<Span<K, V>> = [];
+        const first = this.tree.floor(probe(range.lo));
+        if (first !== undefined && cmp(range.lo, first.hi) < 0) {
+            overlapping.push(first);
+        }
+        for (
+            let span = this.tree.ceiling(probe(range.lo), false);
+            span !== undefined && cmp(span.lo, range.hi) < 0;
+            span = this.tree.successor(span)
+        ) {
+            overlapping.push(span);
+        }
+        for (const span of overlapping) {
+            this.tree.delete(span);
+            if (cmp(span.lo, range.lo) < 0) {
+                this.tree.insert({ lo: span.lo, hi: range.lo, value: span.value });
+            }
+            if (cmp(range.hi, span.hi) < 0) {
+                this.tree.insert({ lo: range.hi, hi: span.hi, value: span.value });
+            }
+        }
+        return overlapping.length > 0;
+    }
+
+    /**
+     * Whether the second span starts where the first ends, with an equal value.
+     */
+    private touches(first: Span<K, V>, second: Span<K, V>): boolean {
+        return (
+            this.comparatorFn(first.hi, second.lo) === 0 &&
+            this.valueEqualityFn(first.value, second.value)
+        );
+    }
+}
+
+function probe<K, V>(key: K): Span<K, V> {
+    return { lo: key, hi: key, value: undefined as V };
+}
+
+function entryOf<K, V>(span: Span<K, V>): [Range<K>, V] {
+    return [{ lo: span.lo, hi: span.hi }, span.value];
+}
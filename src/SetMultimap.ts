@@ -0,0 +1,166 @@
+import { HashIndex, resolveHashFn } from "./HashIndex";
+import { AbstractMultimap, MultimapView } from "./Multimap";
+import { defaultEqualityFn, type HashCode, type SetLike } from "./shared";
+
+/**
+ * A Set that looks up values through a hash index, keeping the first value it was given.
+ */
+class EqualitySet<T> extends Set<T> {
+    constructor(private index: HashIndex<T>) {
+        super();
+    }
+
+    add(value: T): this {
+        if (this.index.find(value) === undefined) {
+            this.index.add(value);
+            super.add(value);
+        }
+        return this;
+    }
+
+    has(value: T): boolean {
+        return this.index.find(value) !== undefined;
+    }
+
+    delete(value: T): boolean {
+        const existing = this.index.delete(value);
+        return existing !== undefined ? super.delete(existing) : false;
+    }
+
+    clear(): void {
+        this.index.clear();
+        super.clear();
+    }
+}
+
+/**
+ * A Multimap that keeps its keys sorted and the values under each key in a set, in the order they
+ * were first put. Putting a value that is already under its key changes nothing.
+ */
+export class SetMultimap<K, V> extends AbstractMultimap<K, V, Set<V>> {
+    private valueEqualityFn: (a: V, b: V) => boolean;
+    private valueHashFn: (value: V) => HashCode;
+
+    /**
+     * Keys are compared with `equalityFn` and `comparatorFn` like the keys of an OrderedMap.
+     * Values are compared with `valueEqualityFn`, which should come with a matching
+     * `valueHashFn` like the `equalityFn` of a HashBag.
+     */
+    constructor(
+        entries?: Iterable<[K, V]>,
+        equalityFn?: (a: K, b: K) => boolean,
+        comparatorFn?: (a: K, b: K) => number,
+        hashFn?: (key: K) => HashCode,
+        valueEqualityFn?: (a: V, b: V) => boolean,
+        valueHashFn?: (value: V) => HashCode,
+    ) {
+        super(equalityFn, comparatorFn, hashFn);
+        this.valueEqualityFn = valueEqualityFn ?? defaultEqualityFn;
+        this.valueHashFn = resolveHashFn(valueEqualityFn, valueHashFn);
+        if (entries) {
+            for (const [key, value] of entries) {
+                this.put(key, value);
+            }
+        }
+    }
+
+    get(key: K): SetMultimapView<K, V> {
+        return new SetMultimapView(this, key, () => this.map.get(key));
+    }
+
+    asMap(): ReadonlyMap<K, ReadonlySet<V>> {
+        return new MultimapView(this.map, (values) => {
+            const copy = this.createValues();
+            for (const value of values) {
+                copy.add(value);
+            }
+            return copy;
+        });
+    }
+
+    protected createValues(): Set<V> {
+        return new EqualitySet(new HashIndex(this.valueHashFn, this.valueEqualityFn));
+    }
+
+    protected addValue(values: Set<V>, value: V): boolean {
+        const size = values.size;
+        return values.add(value).size > size;
+    }
+
+    protected deleteValue(values: Set<V>, value: V): boolean {
+        return values.delete(value);
+    }
+
+    protected hasValue(values: Set<V>, value: V): boolean {
+        return values.has(value);
+    }
+
+    protected countValues(values: Set<V>): number {
+        return values.size;
+    }
+}
+
+/**
+ * A live view of the values under one key of a SetMultimap. Reads reflect later changes to the
+ * multimap, and writes go through to it.
+ */
+export class SetMultimapView<K, V> implements SetLike<V> {
+    constructor(
+        private parent: SetMultimap<K, V>,
+        private key: K,
+        private lookup: () => ReadonlySet<V> | undefined,
+    ) {}
+
+    get size(): number {
+        return this.parent.count(this.key);
+    }
+
+    has(value: V): boolean {
+        return this.parent.hasEntry(this.key, value);
+    }
+
+    /**
+     * Adds the value to the set, adding the key to the multimap if needed.
+     */
+    add(value: V): this {
+        this.parent.put(this.key, value);
+        return this;
+    }
+
+    /**
+     * Removes the value, and the key with its last value.
+     */
+    delete(value: V): boolean {
+        return this.parent.removeValue(this.key, value);
+    }
+
+    clear(): void {
+        this.parent.removeAll(this.key);
+    }
+
+    *values(): IterableIterator<V> {
+        for (const value of Array.from(this.lookup() ?? [])) {
+            yield value;
+        }
+    }
+
+    keys(): IterableIterator<V> {
+        return this.values();
+    }
+
+    *entries(): IterableIterator<[V, V]> {
+        for (const value of this.values()) {
+            yield [value, value];
+        }
+    }
+
+    forEach(fn: (value: V, value2: V, set: this) => void): void {
+        for (const value of this.values()) {
+            fn(value, value, this);
+        }
+    }
+
+    [Symbol.iterator](): IterableIterator<V> {
+        return this.values();
+    }
+}
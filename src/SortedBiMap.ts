@@ -0,0 +1,56 @@
+import { BiMap } from "./BiMap";
+import { OrderedMap } from "./OrderedMap";
+import type { HashCode } from "./shared";
+
+/**
+ * A BiMap that iterates in key order. Its inverse iterates in value order.
+ */
+export class SortedBiMap<K, V> extends BiMap<K, V> {
+    declare protected forward: OrderedMap<K, V>;
+    declare protected backward: OrderedMap<V, K>;
+
+    /**
+     * Keys and values each take the equality, comparator and hash functions of an OrderedMap's
+     * keys.
+     */
+    constructor(
+        entries?: Iterable<[K, V]>,
+        keyEqualityFn?: (a: K, b: K) => boolean,
+        valueEqualityFn?: (a: V, b: V) => boolean,
+        keyComparatorFn?: (a: K, b: K) => number,
+        valueComparatorFn?: (a: V, b: V) => number,
+        keyHashFn?: (key: K) => HashCode,
+        valueHashFn?: (value: V) => HashCode,
+    ) {
+        super(undefined, keyEqualityFn, valueEqualityFn);
+        this.forward = new OrderedMap(undefined, keyEqualityFn, keyComparatorFn, keyHashFn);
+        this.backward = new OrderedMap(undefined, valueEqualityFn, valueComparatorFn, valueHashFn);
+        if (entries) {
+            for (const [key, value] of entries) {
+                this.set(key, value);
+            }
+        }
+    }
+
+    inverse(): SortedBiMap<V, K> {
+        return super.inverse() as SortedBiMap<V, K>;
+    }
+
+    /**
+     * Returns the first (lowest) key, or undefined if the map is empty.
+     */
+    firstKey(): K | undefined {
+        return this.forward.firstKey();
+    }
+
+    /**
+     * Returns the last (highest) key, or undefined if the map is empty.
+     */
+    lastKey(): K | undefined {
+        return this.forward.lastKey();
+    }
+
+    protected createInverse(): SortedBiMap<V, K> {
+        return new SortedBiMap();
+    }
+}
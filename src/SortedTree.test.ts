@@ -0,0 +1,138 @@
+import { describe, it, expect } from "bun:test";
+import { Bounds, SortedTree } from "./SortedTree";
+
+function shuffled(n: number, seed = 1): number[] {
+    const result = Array.from({ length: n }, (_, i) => i);
+    for (let i = n - 1; i > 0; i--) {
+        seed = (seed * 16807) % 2147483647;
+        const j = seed % (i + 1);
+        [result[i], result[j]] = [result[j]!, result[i]!];
+    }
+    return result;
+}
+
+describe("SortedTree", () => {
+    it("should iterate values in sorted order", () => {
+        const tree = new SortedTree<number>((a, b) => a - b);
+        for (const n of shuffled(500)) {
+            tree.insert(n);
+        }
+        expect(tree.size).toBe(500);
+        expect(Array.from(tree.values())).toEqual(Array.from({ length: 500 }, (_, i) => i));
+    });
+
+    it("should stay sorted through interleaved inserts and deletes", () => {
+        const tree = new SortedTree<number>((a, b) => a - b);
+        const expected = new Set<number>();
+        for (const n of shuffled(400, 7)) {
+            tree.insert(n);
+            expected.add(n);
+            if (n % 3 === 0) {
+                expect(tree.delete(n)).toBe(true);
+                expected.delete(n);
+            }
+        }
+        expect(Array.from(tree.values())).toEqual(Array.from(expected).sort((a, b) => a - b));
+        expect(tree.size).toBe(expected.size);
+    });
+
+    it("should keep equal values in insertion order and delete by identity", () => {
+        const tree = new SortedTree<{ rank: number; name: string }>((a, b) => a.rank - b.rank);
+        const values = ["a", "b", "c", "d", "e"].map((name) => ({ rank: 1, name }));
+        for (const value of values) {
+            tree.insert(value);
+        }
+        tree.insert({ rank: 0, name: "first" });
+        expect(tree.delete(values[3]!)).toBe(true);
+        expect(tree.delete({ rank: 1, name: "a" })).toBe(false);
+        expect(Array.from(tree.values(), (v) => v.name)).toEqual(["first", "a", "b", "c", "e"]);
+    });
+
+    it("should clear", () => {
+        const tree = new SortedTree<number>((a, b) => a - b);
+        tree.insert(1);
+        tree.clear();
+        expect(tree.size).toBe(0);
+        expect(Array.from(tree.values())).toEqual([]);
+    });
+
+    it("should find values by position through inserts and deletes", () => {
+        const tree = new SortedTree<number>((a, b) => a - b);
+        const expected: number[] = [];
+        for (const n of shuffled(300, 11)) {
+            tree.insert(n);
+            expected.push(n);
+            if (n % 4 === 1) {
+                tree.delete(n);
+                expected.splice(expected.indexOf(n), 1);
+            }
+        }
+        expected.sort((a, b) => a - b);
+        for (let i = 0; i < expected.length; i += 7) {
+            expect(tree.at(i)).toBe(expected[i]!);
+            expect(tree.indexOf(expected[i]!)).toBe(i);
+        }
+        expect(tree.at(expected.length)).toBeUndefined();
+        expect(tree.at(-1)).toBeUndefined();
+        expect(tree.indexOf(1)).toBe(-1);
+        expect(tree.slice(10, 15)).toEqual(expected.slice(10, 15));
+        expect(tree.slice(-3)).toEqual(expected.slice(-3));
+        expect(tree.slice(5, 2)).toEqual([]);
+        expect(Array.from(tree.valuesFrom(expected.length - 2))).toEqual(expected.slice(-2));
+    });
+
+    it("should count values within bounds", () => {
+        const tree = new SortedTree<number>((a, b) => a - b);
+        tree.loadSorted([1, 2, 2, 2, 3, 5, 8]);
+        const count = (lo: number, hi: number, loInclusive = true, hiInclusive = false) =>
+            tree.count(
+                new Bounds<number>(
+                    (a, b) => a - b,
+                    { value: lo, inclusive: loInclusive },
+                    { value: hi, inclusive: hiInclusive },
+                ),
+            );
+        expect(count(2, 5)).toBe(4);
+        expect(count(2, 5, false, true)).toBe(2);
+        expect(count(2, 2, true, true)).toBe(3);
+        expect(count(2, 2)).toBe(0);
+        expect(count(9, 10)).toBe(0);
+        expect(tree.count(new Bounds<number>((a, b) => a - b))).toBe(7);
+    });
+
+    it("should find a value among equal ones by identity", () => {
+        const tree = new SortedTree<{ rank: number }>((a, b) => a.rank - b.rank);
+        const values = Array.from({ length: 20 }, (_, i) => ({ rank: i % 3 }));
+        for (const value of values) {
+            tree.insert(value);
+        }
+        const ordered = Array.from(tree.values());
+        for (const value of values) {
+            expect(tree.indexOf(value)).toBe(ordered.indexOf(value));
+        }
+        expect(tree.indexOf({ rank: 1 })).toBe(-1);
+    });
+
+    it("should merge sorted batches after equal values", () => {
+        const tree = new SortedTree<{ rank: number; id: string }>((a, b) => a.rank - b.rank);
+        const existing = [0, 2, 4].map((rank) => ({ rank, id: "old" }));
+        tree.loadSorted(existing);
+        tree.insertSorted([1, 2, 5].map((rank) => ({ rank, id: "new" })));
+        expect(Array.from(tree.values(), ({ rank, id }) => `${rank}${id}`)).toEqual([
+            "0old",
+            "1new",
+            "2old",
+            "2new",
+            "4old",
+            "5new",
+        ]);
+        expect(tree.size).toBe(6);
+        expect(tree.at(3)?.id).toBe("new");
+
+        const large = new SortedTree<number>((a, b) => a - b);
+        large.insertSorted(Array.from({ length: 100 }, (_, i) => i * 2));
+        large.insertSorted([51]);
+        expect(large.size).toBe(101);
+        expect(large.indexOf(51)).toBe(26);
+    });
+});
@@ -0,0 +1,456 @@
+import { height, rebalance, removeNode } from "./avl";
+
+interface Node<T> {
+    value: T;
+    left: Node<T> | undefined;
+    right: Node<T> | undefined;
+    height: number;
+    /** The number of values in this subtree. */
+    size: number;
+}
+
+export interface Bound<T> {
+    value: T;
+    inclusive: boolean;
+}
+
+export interface RangeOptions {
+    /** Whether the lower bound belongs to the range, true by default. */
+    loInclusive?: boolean;
+    /** Whether the upper bound belongs to the range, false by default. */
+    hiInclusive?: boolean;
+}
+
+/**
+ * An optional lower and upper bound, compared through a comparator.
+ */
+export class Bounds<T> {
+    constructor(
+        private comparatorFn: (a: T, b: T) => number,
+        private lo?: Bound<T>,
+        private hi?: Bound<T>,
+    ) {
+        if (lo !== undefined && hi !== undefined && comparatorFn(lo.value, hi.value) > 0) {
+            throw new RangeError("The lower bound of a range must not be above its upper bound");
+        }
+    }
+
+    tooLow(value: T): boolean {
+        if (this.lo === undefined) {
+            return false;
+        }
+        const order = this.comparatorFn(value, this.lo.value);
+        return order < 0 || (order === 0 && !this.lo.inclusive);
+    }
+
+    tooHigh(value: T): boolean {
+        if (this.hi === undefined) {
+            return false;
+        }
+        const order = this.comparatorFn(value, this.hi.value);
+        return order > 0 || (order === 0 && !this.hi.inclusive);
+    }
+
+    contains(value: T): boolean {
+        return !this.tooLow(value) && !this.tooHigh(value);
+    }
+
+    assertContains(value: T): void {
+        if (!this.contains(value)) {
+            throw new RangeError("The value is outside the range of this view");
+        }
+    }
+}
+
+/**
+ * An AVL tree that keeps values sorted by a comparator. Values that compare equal are allowed and
+ * kept in insertion order; removal matches by identity within such a run. Every node knows the
+ * size of its subtree, so values can be found by position in O(log n).
+ */
+export class SortedTree<T> {
+    private root?: Node<T>;
+    private _size = 0;
+
+    constructor(readonly comparatorFn: (a: T, b: T) => number) {}
+
+    get size(): number {
+        return this._size;
+    }
+
+    insert(value: T): void {
+        this.root = this.insertAt(this.root, value);
+        this._size++;
+    }
+
+    /**
+     * Removes the given value, found by comparator and matched by identity.
+     * @returns true if the value was in the tree
+     */
+    delete(value: T): boolean {
+        const sizeBefore = this._size;
+        this.root = this.deleteAt(this.root, value);
+        return this._size < sizeBefore;
+    }
+
+    clear(): void {
+        this.root = undefined;
+        this._size = 0;
+    }
+
+    /**
+     * Replaces the contents with values that are already sorted, in linear time.
+     */
+    loadSorted(values: ReadonlyArray<T>): void {
+        this.root = build(values, 0, values.length);
+        this._size = values.length;
+    }
+
+    /**
+     * Inserts values that are already sorted. Values that tie with ones in the tree go after
+     * them, as with `insert`. A large batch is merged with the current values and the tree
+     * rebuilt in linear time, rather than inserting the values one by one.
+     */
+    insertSorted(values: ReadonlyArray<T>): void {
+        if (values.length * Math.log2(this._size + 1) < this._size) {
+            for (const value of values) {
+                this.insert(value);
+            }
+            return;
+        }
+        const merged: Array<T> = [];
+        const existing = this.values();
+        let next = existing.next();
+        let i = 0;
+        while (!next.done || i < values.length) {
+            if (
+                i === values.length ||
+                (!next.done && this.comparatorFn(values[i]!, next.value) >= 0)
+            ) {
+                merged.push(next.value as T);
+                next = existing.next();
+            } else {
+                merged.push(values[i++]!);
+            }
+        }
+        this.loadSorted(merged);
+    }
+
+    first(): T | undefined {
+        let node = this.root;
+        while (node?.left !== undefined) {
+            node = node.left;
+        }
+        return node?.value;
+    }
+
+    last(): T | undefined {
+        let node = this.root;
+        while (node?.right !== undefined) {
+            node = node.right;
+        }
+        return node?.value;
+    }
+
+    /**
+     * Returns the greatest value that compares below the given one, or equal to it when inclusive.
+     * Of several equal values, the last inserted one is returned.
+     */
+    floor(value: T, inclusive = true): T | undefined {
+        let result: T | undefined;
+        let node = this.root;
+        while (node !== undefined) {
+            const order = this.comparatorFn(node.value, value);
+            if (order < 0 || (inclusive && order === 0)) {
+                result = node.value;
+                node = node.right;
+            } else {
+                node = node.left;
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Returns the least value that compares above the given one, or equal to it when inclusive.
+     * Of several equal values, the first inserted one is returned.
+     */
+    ceiling(value: T, inclusive = true): T | undefined {
+        let result: T | undefined;
+        let node = this.root;
+        while (node !== undefined) {
+            const order = this.comparatorFn(node.value, value);
+            if (order > 0 || (inclusive && order === 0)) {
+                result = node.value;
+                node = node.left;
+            } else {
+                node = node.right;
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Returns the value after the given one in order. Among values that compare equal, this
+     * follows insertion order if the given value is still in the tree, and skips past all of them
+     * otherwise.
+     */
+    successor(value: T): T | undefined {
+        const run = new Bounds(
+            this.comparatorFn,
+            { value, inclusive: true },
+            { value, inclusive: true },
+        );
+        let found = false;
+        for (const tied of this.range(run)) {
+            if (found) {
+                return tied;
+            }
+            found = tied === value;
+        }
+        return this.ceiling(value, false);
+    }
+
+    /**
+     * Returns the value before the given one in order, mirroring `successor`.
+     */
+    predecessor(value: T): T | undefined {
+        const run = new Bounds(
+            this.comparatorFn,
+            { value, inclusive: true },
+            { value, inclusive: true },
+        );
+        let previous: T | undefined;
+        for (const tied of this.range(run)) {
+            if (tied === value) {
+                return previous ?? this.floor(value, false);
+            }
+            previous = tied;
+        }
+        return this.floor(value, false);
+    }
+
+    /**
+     * Returns the value at the given position in order, or undefined if there is none.
+     */
+    at(index: number): T | undefined {
+        let node = this.root;
+        let i = index;
+        while (node !== undefined) {
+            const leftSize = size(node.left);
+            if (i < leftSize) {
+                node = node.left;
+            } else if (i === leftSize) {
+                return node.value;
+            } else {
+                i -= leftSize + 1;
+                node = node.right;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Returns the position of the given value, found by comparator and matched by identity, or -1
+     * if it is not in the tree.
+     */
+    indexOf(value: T): number {
+        return this.indexAt(this.root, value, 0);
+    }
+
+    /**
+     * Counts the values within the given bounds.
+     */
+    count(bounds: Bounds<T>): number {
+        let tooLow = 0;
+        let tooHigh = 0;
+        for (let node = this.root; node !== undefined;) {
+            if (bounds.tooLow(node.value)) {
+                tooLow += size(node.left) + 1;
+                node = node.right;
+            } else {
+                node = node.left;
+            }
+        }
+        for (let node = this.root; node !== undefined;) {
+            if (bounds.tooHigh(node.value)) {
+                tooHigh += size(node.right) + 1;
+                node = node.left;
+            } else {
+                node = node.right;
+            }
+        }
+        return Math.max(0, this._size - tooLow - tooHigh);
+    }
+
+    *values(): IterableIterator<T> {
+        const stack: Array<Node<T>> = [];
+        let node = this.root;
+        while (node !== undefined || stack.length > 0) {
+            while (node !== undefined) {
+                stack.push(node);
+                node = node.left;
+            }
+            node = stack.pop()!;
+            yield node.value;
+            node = node.right;
+        }
+    }
+
+    /**
+     * Iterates the values within the given bounds in order, without visiting the ones below.
+     */
+    *range(bounds: Bounds<T>): IterableIterator<T> {
+        const stack: Array<Node<T>> = [];
+        let node = this.root;
+        while (node !== undefined) {
+            if (bounds.tooLow(node.value)) {
+                node = node.right;
+            } else {
+                stack.push(node);
+                node = node.left;
+            }
+        }
+        while (stack.length > 0) {
+            const top = stack.pop()!;
+            if (bounds.tooHigh(top.value)) {
+                return;
+            }
+            yield top.value;
+            node = top.right;
+            while (node !== undefined) {
+                stack.push(node);
+                node = node.left;
+            }
+        }
+    }
+
+    /**
+     * Copies the values from start up to end in order, treating negative and missing positions as
+     * `Array.prototype.slice` does.
+     */
+    slice(start = 0, end = this._size): Array<T> {
+        const from = relativeIndex(start, this._size);
+        const to = relativeIndex(end, this._size);
+        const result: Array<T> = [];
+        if (from < to) {
+            for (const value of this.valuesFrom(from)) {
+                result.push(value);
+                if (result.length === to - from) {
+                    break;
+                }
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Iterates the values in order, starting at the given position.
+     */
+    *valuesFrom(index: number): IterableIterator<T> {
+        const stack: Array<Node<T>> = [];
+        let node = this.root;
+        let i = index;
+        while (node !== undefined) {
+            const leftSize = size(node.left);
+            if (i <= leftSize) {
+                stack.push(node);
+                if (i === leftSize) {
+                    break;
+                }
+                node = node.left;
+            } else {
+                i -= leftSize + 1;
+                node = node.right;
+            }
+        }
+        while (stack.length > 0) {
+            const top = stack.pop()!;
+            yield top.value;
+            node = top.right;
+            while (node !== undefined) {
+                stack.push(node);
+                node = node.left;
+            }
+        }
+    }
+
+    private indexAt(node: Node<T> | undefined, value: T, offset: number): number {
+        if (node === undefined) {
+            return -1;
+        }
+        const order = this.comparatorFn(value, node.value);
+        if (order < 0) {
+            return this.indexAt(node.left, value, offset);
+        }
+        const index = offset + size(node.left);
+        if (order > 0) {
+            return this.indexAt(node.right, value, index + 1);
+        }
+        if (node.value === value) {
+            return index;
+        }
+        // A run of equal values can straddle this node, so look on both sides.
+        const left = this.indexAt(node.left, value, offset);
+        return left !== -1 ? left : this.indexAt(node.right, value, index + 1);
+    }
+
+    private insertAt(node: Node<T> | undefined, value: T): Node<T> {
+        if (node === undefined) {
+            return { value, left: undefined, right: undefined, height: 1, size: 1 };
+        }
+        if (this.comparatorFn(value, node.value) < 0) {
+            node.left = this.insertAt(node.left, value);
+        } else {
+            node.right = this.insertAt(node.right, value);
+        }
+        return rebalance(node, update);
+    }
+
+    private deleteAt(node: Node<T> | undefined, value: T): Node<T> | undefined {
+        if (node === undefined) {
+            return undefined;
+        }
+        const order = this.comparatorFn(value, node.value);
+        if (order < 0) {
+            node.left = this.deleteAt(node.left, value);
+        } else if (order > 0) {
+            node.right = this.deleteAt(node.right, value);
+        } else if (node.value === value) {
+            this._size--;
+            return removeNode(node, update);
+        } else {
+            // A run of equal values can straddle this node, so look on both sides.
+            const sizeBefore = this._size;
+            node.left = this.deleteAt(node.left, value);
+            if (this._size === sizeBefore) {
+                node.right = this.deleteAt(node.right, value);
+            }
+        }
+        return rebalance(node, update);
+    }
+}
+
+function build<T>(values: ReadonlyArray<T>, start: number, end: number): Node<T> | undefined {
+    if (start >= end) {
+        return undefined;
+    }
+    const mid = (start + end) >> 1;
+    const left = build(values, start, mid);
+    const right = build(values, mid + 1, end);
+    return update({ value: values[mid]!, left, right, height: 1, size: 1 });
+}
+
+function relativeIndex(index: number, length: number): number {
+    const i = Math.trunc(index) || 0;
+    return i < 0 ? Math.max(0, length + i) : Math.min(i, length);
+}
+
+function size<T>(node: Node<T> | undefined): number {
+    return node === undefined ? 0 : node.size;
+}
+
+function update<T>(node: Node<T>): Node<T> {
+    node.height = Math.max(height(node.left), height(node.right)) + 1;
+    node.size = size(node.left) + size(node.right) + 1;
+    return node;
+}
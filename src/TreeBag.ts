@@ -0,0 +1,83 @@
+import { AbstractBag } from "./Bag";
+import { resolveHashFn } from "./HashIndex";
+import { decode, readSerialized, type Codec, type SerializedBag } from "./json";
+import type { CollectionOptions } from "./options";
+import { OrderedMap } from "./OrderedMap";
+import { OrderedSet } from "./OrderedSet";
+import { defaultEqualityFn, defaultComparatorFn, type HashCode } from "./shared";
+
+/**
+ * A Bag that keeps its unique values sorted.
+ */
+export class TreeBag<T> extends AbstractBag<T> {
+    protected readonly counts: OrderedMap<T, number>;
+    protected readonly typeTag = "TreeBag";
+    private equalityFn: (a: T, b: T) => boolean;
+    private comparatorFn: (a: T, b: T) => number;
+    private hashFn: (value: T) => HashCode;
+    private options: CollectionOptions;
+
+    constructor(
+        iterable?: Iterable<T>,
+        equalityFn?: (a: T, b: T) => boolean,
+        comparatorFn?: (a: T, b: T) => number,
+        hashFn?: (value: T) => HashCode,
+        options: CollectionOptions = {},
+    ) {
+        super(undefined, options);
+        this.options = options;
+        this.equalityFn = equalityFn ?? defaultEqualityFn;
+        this.comparatorFn = comparatorFn ?? defaultComparatorFn;
+        this.hashFn = resolveHashFn(equalityFn, hashFn);
+        this.counts = new OrderedMap(undefined, this.equalityFn, this.comparatorFn, this.hashFn, {
+            validate: options.validate,
+            iteration: "live",
+        });
+        if (iterable) {
+            this.addAll(iterable);
+        }
+    }
+
+    protected create(): TreeBag<T> {
+        return new TreeBag(
+            undefined,
+            this.equalityFn,
+            this.comparatorFn,
+            this.hashFn,
+            this.options,
+        );
+    }
+
+    protected compareElements(a: T, b: T): number {
+        return this.comparatorFn(a, b);
+    }
+
+    protected hashOf(value: T): HashCode {
+        return this.hashFn(value);
+    }
+
+    uniqueSet(): OrderedSet<T> {
+        return new OrderedSet(this.counts.keys(), this.equalityFn, this.comparatorFn, this.hashFn);
+    }
+
+    /**
+     * Rebuilds a bag from its JSON form. Functions can't be serialized, so custom equality,
+     * comparator and hash functions must be passed again.
+     * @param json the JSON text or the parsed JSON form
+     * @param codec rebuilds values, such as class instances, from their JSON form
+     */
+    static fromJSON<T>(
+        json: string | SerializedBag,
+        codec?: Codec<T>,
+        equalityFn?: (a: T, b: T) => boolean,
+        comparatorFn?: (a: T, b: T) => number,
+        hashFn?: (value: T) => HashCode,
+    ): TreeBag<T> {
+        const { counts } = readSerialized(json, "TreeBag");
+        const result = new TreeBag(undefined, equalityFn, comparatorFn, hashFn);
+        for (const [value, count] of counts) {
+            result.add(decode(codec, value), count);
+        }
+        return result;
+    }
+}
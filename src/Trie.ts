@@ -0,0 +1,268 @@
+interface Node<V> {
+    /** The part of the key on the edge into this node; empty only for the root. */
+    label: string;
+    entry: TrieEntry<V> | undefined;
+    /** Sorted by the first character of their labels, which are all different. */
+    children: Array<Node<V>>;
+}
+
+export interface TrieEntry<V> {
+    /** The key as it was first given, before normalization. */
+    key: string;
+    value: V;
+}
+
+/**
+ * A compressed trie (radix tree) from strings to entries. Chains of nodes with one child and no
+ * entry are merged into a single edge. Walks visit keys in the order of `defaultComparatorFn`,
+ * which compares strings by UTF-16 code unit.
+ */
+export class Trie<V> {
+    private root: Node<V> = newNode("");
+    private _size = 0;
+
+    get size(): number {
+        return this._size;
+    }
+
+    get(path: string): TrieEntry<V> | undefined {
+        const nodes = this.walk(path);
+        return nodes !== undefined ? last(nodes).entry : undefined;
+    }
+
+    /**
+     * Sets the value under the path. An existing entry keeps its original key.
+     * @returns true if the path was new
+     */
+    set(path: string, key: string, value: V): boolean {
+        let node = this.root;
+        let pos = 0;
+        while (pos < path.length) {
+            const index = childIndex(node, path.charCodeAt(pos));
+            const child = node.children[index];
+            if (child === undefined || child.label.charCodeAt(0) !== path.charCodeAt(pos)) {
+                const leaf = newNode<V>(path.slice(pos));
+                leaf.entry = { key, value };
+                node.children.splice(index, 0, leaf);
+                this._size++;
+                return true;
+            }
+            const common = commonLength(child.label, path, pos);
+            if (common < child.label.length) {
+                const middle = newNode<V>(child.label.slice(0, common));
+                child.label = child.label.slice(common);
+                middle.children.push(child);
+                node.children[index] = middle;
+            }
+            node = node.children[index]!;
+            pos += common;
+        }
+        if (node.entry !== undefined) {
+            node.entry.value = value;
+            return false;
+        }
+        node.entry = { key, value };
+        this._size++;
+        return true;
+    }
+
+    /**
+     * @returns the removed entry, if there was one
+     */
+    delete(path: string): TrieEntry<V> | undefined {
+        const nodes = this.walk(path);
+        if (nodes === undefined) {
+            return undefined;
+        }
+        const node = last(nodes);
+        const entry = node.entry;
+        if (entry !== undefined) {
+            node.entry = undefined;
+            this._size--;
+            this.compact(nodes);
+        }
+        return entry;
+    }
+
+    /**
+     * Removes every entry whose path starts with the prefix.
+     * @returns how many entries were removed
+     */
+    deletePrefix(prefix: string): number {
+        if (prefix === "") {
+            const removed = this._size;
+            this.clear();
+            return removed;
+        }
+        const nodes = this.locate(prefix);
+        if (nodes === undefined) {
+            return 0;
+        }
+        const node = nodes.pop()!;
+        let removed = 0;
+        for (const _ of entriesBelow(node)) {
+            removed++;
+        }
+        const parent = last(nodes);
+        parent.children.splice(parent.children.indexOf(node), 1);
+        this._size -= removed;
+        this.compact(nodes);
+        return removed;
+    }
+
+    clear(): void {
+        this.root = newNode("");
+        this._size = 0;
+    }
+
+    /**
+     * Returns the entry with the longest path that is a prefix of the given string.
+     */
+    longestPrefixOf(str: string): TrieEntry<V> | undefined {
+        let result = this.root.entry;
+        let node = this.root;
+        let pos = 0;
+        while (pos < str.length) {
+            const child = findChild(node, str.charCodeAt(pos));
+            if (child === undefined || !str.startsWith(child.label, pos)) {
+                break;
+            }
+            node = child;
+            pos += child.label.length;
+            result = node.entry ?? result;
+        }
+        return result;
+    }
+
+    /**
+     * Iterates the entries whose paths start with the prefix, in order.
+     */
+    *entries(prefix = ""): IterableIterator<TrieEntry<V>> {
+        const nodes = this.locate(prefix);
+        if (nodes !== undefined) {
+            yield* entriesBelow(last(nodes));
+        }
+    }
+
+    /**
+     * Returns the nodes from the root down to the one at the end of the path, or undefined if the
+     * path doesn't end at a node.
+     */
+    private walk(path: string): Array<Node<V>> | undefined {
+        const nodes = [this.root];
+        let node = this.root;
+        let pos = 0;
+        while (pos < path.length) {
+            const child = findChild(node, path.charCodeAt(pos));
+            if (child === undefined || !path.startsWith(child.label, pos)) {
+                return undefined;
+            }
+            node = child;
+            nodes.push(node);
+            pos += child.label.length;
+        }
+        return nodes;
+    }
+
+    /**
+     * Returns the nodes from the root down to the highest node whose path starts with the prefix,
+     * or undefined if there is none.
+     */
+    private locate(prefix: string): Array<Node<V>> | undefined {
+        const nodes = [this.root];
+        let node = this.root;
+        let pos = 0;
+        while (pos < prefix.length) {
+            const child = findChild(node, prefix.charCodeAt(pos));
+            if (child === undefined) {
+                return undefined;
+            }
+            const common = commonLength(child.label, prefix, pos);
+            if (pos + common < prefix.length && common < child.label.length) {
+                return undefined;
+            }
+            node = child;
+            nodes.push(node);
+            pos += common;
+        }
+        return nodes;
+    }
+
+    /**
+     * Restores the compression invariants on a path after an entry or subtree was removed from
+     * its last node.
+     */
+    private compact(nodes: Array<Node<V>>): void {
+        for (let i = nodes.length - 1; i > 0; i--) {
+            const node = nodes[i]!;
+            const parent = nodes[i - 1]!;
+            if (node.entry !== undefined || node.children.length > 1) {
+                return;
+            }
+            if (node.children.length === 0) {
+                parent.children.splice(parent.children.indexOf(node), 1);
+                continue;
+            }
+            const child = node.children[0]!;
+            node.label += child.label;
+            node.entry = child.entry;
+            node.children = child.children;
+            return;
+        }
+    }
+}
+
+function newNode<V>(label: string): Node<V> {
+    return { label, entry: undefined, children: [] };
+}
+
+function last<T>(values: Array<T>): T {
+    return values[values.length - 1]!;
+}
+
+/**
+ * Returns the index of the child whose label starts with the given code unit, or where it would
+ * be inserted.
+ */
+function childIndex<V>(node: Node<V>, code: number): number {
+    let lo = 0;
+    let hi = node.children.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >>> 1;
+        if (node.children[mid]!.label.charCodeAt(0) < code) {
+            lo = mid + 1;
+        } else {
+            hi = mid;
+        }
+    }
+    return lo;
+}
+
+function findChild<V>(node: Node<V>, code: number): Node<V> | undefined {
+    const child = node.children[childIndex(node, code)];
+    return child?.label.charCodeAt(0) === code ? child : undefined;
+}
+
+/**
+ * Returns how many characters the label shares with the string from the given position.
+ */
+function commonLength(label: string, str: string, pos: number): number {
+    let i = 0;
+    while (i < label.length && pos + i < str.length && label[i] === str[pos + i]) {
+        i++;
+    }
+    return i;
+}
+
+function* entriesBelow<V>(node: Node<V>): IterableIterator<TrieEntry<V>> {
+    const stack = [node];
+    while (stack.length > 0) {
+        const top = stack.pop()!;
+        if (top.entry !== undefined) {
+            yield top.entry;
+        }
+        for (let i = top.children.length - 1; i >= 0; i--) {
+            stack.push(top.children[i]!);
+        }
+    }
+}
@@ -0,0 +1,106 @@
+/**
+ * AVL balancing shared by the trees. Each tree passes an `update` hook that recomputes a node's
+ * height, and whatever else the node keeps about its subtree, from its children. A tree that
+ * shares nodes also passes an `editable` hook that returns a node, or a copy of it, that can be
+ * changed in place.
+ */
+
+export interface AvlNode<N> {
+    left: N | undefined;
+    right: N | undefined;
+    height: number;
+}
+
+export function height<N extends AvlNode<N>>(node: N | undefined): number {
+    return node === undefined ? 0 : node.height;
+}
+
+/**
+ * Restores the balance of an editable node whose children may have changed.
+ * @returns the root of the balanced subtree
+ */
+export function rebalance<N extends AvlNode<N>>(
+    node: N,
+    update: (node: N) => N,
+    editable: (node: N) => N = self,
+): N {
+    update(node);
+    const balance = height(node.left) - height(node.right);
+    if (balance > 1) {
+        if (height(node.left!.left) < height(node.left!.right)) {
+            node.left = rotateLeft(editable(node.left!), update, editable);
+        }
+        return rotateRight(node, update, editable);
+    }
+    if (balance < -1) {
+        if (height(node.right!.right) < height(node.right!.left)) {
+            node.right = rotateRight(editable(node.right!), update, editable);
+        }
+        return rotateLeft(node, update, editable);
+    }
+    return node;
+}
+
+/**
+ * Removes a node from its subtree, putting its successor in its place.
+ * @returns the root of what is left of the subtree
+ */
+export function removeNode<N extends AvlNode<N>>(
+    node: N,
+    update: (node: N) => N,
+    editable: (node: N) => N = self,
+): N | undefined {
+    if (node.left === undefined) {
+        return node.right;
+    }
+    if (node.right === undefined) {
+        return node.left;
+    }
+    let successor = node.right;
+    while (successor.left !== undefined) {
+        successor = successor.left;
+    }
+    const result = editable(successor);
+    result.right = removeMin(node.right, update, editable);
+    result.left = node.left;
+    return rebalance(result, update, editable);
+}
+
+function removeMin<N extends AvlNode<N>>(
+    node: N,
+    update: (node: N) => N,
+    editable: (node: N) => N,
+): N | undefined {
+    if (node.left === undefined) {
+        return node.right;
+    }
+    const result = editable(node);
+    result.left = removeMin(node.left, update, editable);
+    return rebalance(result, update, editable);
+}
+
+function rotateLeft<N extends AvlNode<N>>(
+    node: N,
+    update: (node: N) => N,
+    editable: (node: N) => N,
+): N {
+    const pivot = editable(node.right!);
+    node.right = pivot.left;
+    pivot.left = update(node);
+    return update(pivot);
+}
+
+function rotateRight<N extends AvlNode<N>>(
+    node: N,
+    update: (node: N) => N,
+    editable: (node: N) => N,
+): N {
+    const pivot = editable(node.left!);
+    node.left = pivot.right;
+    pivot.right = update(node);
+    return update(pivot);
+}
+
+function self<N>(node: N): N {
+    return node;
+}
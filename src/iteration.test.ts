@@ -0,0 +1,184 @@
+import { describe, it, expect } from "bun:test";
+import { HashBag } from "./HashBag";
+import { ConcurrentModificationError, type IterationPolicy } from "./iteration";
+import { OrderedMap } from "./OrderedMap";
+import { OrderedSet } from "./OrderedSet";
+import { Collection } from "./shared";
+
+function mapOf(iteration?: IterationPolicy): OrderedMap<number, string> {
+    return new OrderedMap(
+        [
+            [1, "a"],
+            [3, "c"],
+            [5, "e"],
+        ],
+        undefined,
+        undefined,
+        undefined,
+        { iteration },
+    );
+}
+
+function* keysOf<K, V>(map: OrderedMap<K, V>): Generator<K> {
+    for (const [key] of map) {
+        yield key;
+    }
+}
+
+describe("iteration policies", () => {
+    describe("snapshot", () => {
+        it("should be the default for sorted collections", () => {
+            const map = mapOf();
+            const seen: Array<number> = [];
+            map.forEach((_, key) => {
+                seen.push(key);
+                map.set(key + 1, "x");
+            });
+            expect(seen).toEqual([1, 3, 5]);
+            expect(Array.from(map.keys())).toEqual([1, 2, 3, 4, 5, 6]);
+        });
+
+        it("should freeze the elements when the iterator is created", () => {
+            const set = new OrderedSet([1, 2, 3]);
+            const values = set.values();
+            set.add(0);
+            set.delete(2);
+            expect(Array.from(values)).toEqual([1, 2, 3]);
+        });
+
+        it("should keep the values an entry had when the iterator was created", () => {
+            const map = mapOf("snapshot");
+            const entries = map.entries();
+            map.set(3, "C");
+            expect(Array.from(entries)).toEqual([
+                [1, "a"],
+                [3, "c"],
+                [5, "e"],
+            ]);
+        });
+    });
+
+    describe("fail-fast", () => {
+        it("should throw on the next step after a change inside forEach", () => {
+            const map = mapOf("fail-fast");
+            const seen: Array<number> = [];
+            expect(() =>
+                map.forEach((_, key) => {
+                    seen.push(key);
+                    map.delete(5);
+                }),
+            ).toThrow(ConcurrentModificationError);
+            expect(seen).toEqual([1]);
+        });
+
+        it("should throw inside a generator loop", () => {
+            const map = mapOf("fail-fast");
+            const keys = keysOf(map);
+            expect(keys.next().value).toBe(1);
+            map.set(2, "b");
+            expect(() => keys.next()).toThrow(ConcurrentModificationError);
+        });
+
+        it("should throw on the first step after a change since the iterator was made", () => {
+            const map = mapOf("fail-fast");
+            const keys = map.keys();
+            map.delete(3);
+            expect(() => keys.next()).toThrow(ConcurrentModificationError);
+        });
+
+        it("should throw when the last element was changed", () => {
+            const set = new OrderedSet([1, 2], undefined, undefined, undefined, {
+                iteration: "fail-fast",
+            });
+            expect(() => {
+                for (const value of set) {
+                    if (value === 2) {
+                        set.clear();
+                    }
+                }
+            }).toThrow(ConcurrentModificationError);
+        });
+
+        it("should ignore value updates and lookups", () => {
+            const map = mapOf("fail-fast");
+            const seen: Array<string> = [];
+            for (const [key, value] of map) {
+                seen.push(value);
+                map.set(key, value.toUpperCase());
+                map.get(5);
+            }
+            expect(seen).toEqual(["a", "c", "e"]);
+            expect(Array.from(map.values())).toEqual(["A", "C", "E"]);
+        });
+
+        it("should let removeIf change a Collection", () => {
+            const collection = new Collection([1, 2, 3, 4], { iteration: "fail-fast" });
+            expect(collection.removeIf((n) => n % 2 === 0)).toBe(2);
+            expect(collection.toArray()).toEqual([1, 3]);
+            expect(() => collection.forEach((n) => collection.add(n + 10))).toThrow(
+                ConcurrentModificationError,
+            );
+        });
+
+        it("should count copies added to a bag", () => {
+            const bag = new HashBag(["a", "b"], undefined, undefined, { iteration: "fail-fast" });
+            expect(() => {
+                for (const value of bag) {
+                    bag.add(value);
+                }
+            }).toThrow(ConcurrentModificationError);
+        });
+    });
+
+    describe("live", () => {
+        it("should visit keys added ahead and skip keys removed ahead", () => {
+            const map = mapOf("live");
+            const seen: Array<number> = [];
+            map.forEach((_, key) => {
+                seen.push(key);
+                if (key === 1) {
+                    map.set(4, "d");
+                    map.set(0, "z");
+                    map.delete(5);
+                }
+            });
+            expect(seen).toEqual([1, 3, 4]);
+        });
+
+        it("should carry on after the current key is deleted", () => {
+            const set = new OrderedSet([1, 2, 3, 4], undefined, undefined, undefined, {
+                iteration: "live",
+            });
+            const seen: Array<number> = [];
+            for (const value of set) {
+                seen.push(value);
+                set.delete(value);
+            }
+            expect(seen).toEqual([1, 2, 3, 4]);
+            expect(set.size).toBe(0);
+        });
+
+        it("should visit elements that compare equal in insertion order", () => {
+            const set = new OrderedSet(
+                ["bb", "a", "cc", "d"],
+                undefined,
+                (a, b) => a.length - b.length,
+                undefined,
+                { iteration: "live" },
+            );
+            expect(Array.from(set)).toEqual(["a", "d", "bb", "cc"]);
+        });
+
+        it("should be the default for a Collection", () => {
+            const collection = new Collection([1]);
+            const seen: Array<number> = [];
+            for (const value of collection) {
+                seen.push(value);
+                if (value < 3) {
+                    collection.add(value + 1);
+                }
+            }
+            expect(seen).toEqual([1, 2, 3]);
+        });
+    });
+});
@@ -0,0 +1,74 @@
+/**
+ * What an iterator sees when its collection changes while it is in use:
+ * - `"snapshot"`: the elements as they were when the iterator was created.
+ * - `"fail-fast"`: the same, but the next call to `next()` throws a ConcurrentModificationError.
+ * - `"live"`: the current elements; ones added ahead of the iterator are visited, removed ones
+ *   are not.
+ */
+export type IterationPolicy = "snapshot" | "fail-fast" | "live";
+
+export class ConcurrentModificationError extends Error {
+    constructor(message = "The collection was modified during iteration") {
+        super(message);
+        this.name = "ConcurrentModificationError";
+    }
+}
+
+/**
+ * Counts the structural modifications of a collection (additions, removals and clears) and hands
+ * out iterators that follow its iteration policy.
+ */
+export class ModificationCounter {
+    private count = 0;
+
+    constructor(readonly policy: IterationPolicy) {}
+
+    increment(): void {
+        this.count++;
+    }
+
+    /**
+     * Returns an iterator over the collection under this counter's policy.
+     * @param snapshot returns the current elements in an array that later changes leave alone
+     * @param live returns an iterator that follows later changes
+     */
+    iterate<T>(
+        snapshot: () => ReadonlyArray<T>,
+        live: () => IterableIterator<T>,
+    ): IterableIterator<T> {
+        switch (this.policy) {
+            case "snapshot":
+                return snapshot().values();
+            case "fail-fast":
+                return this.failFast(snapshot().values(), this.count);
+            case "live":
+                return live();
+        }
+    }
+
+    private *failFast<T>(values: Iterator<T>, expected: number): IterableIterator<T> {
+        for (;;) {
+            this.check(expected);
+            const next = values.next();
+            if (next.done) {
+                return;
+            }
+            yield next.value;
+        }
+    }
+
+    private check(expected: number): void {
+        if (this.count !== expected) {
+            throw new ConcurrentModificationError();
+        }
+    }
+}
+
+/**
+ * Maps each value of an iterator, lazily.
+ */
+export function* mapIterator<T, U>(values: Iterator<T>, fn: (value: T) => U): IterableIterator<U> {
+    for (let next = values.next(); !next.done; next = values.next()) {
+        yield fn(next.value);
+    }
+}
@@ -0,0 +1,187 @@
+import { describe, it, expect } from "bun:test";
+import { HashBag } from "./HashBag";
+import { FORMAT_VERSION, type Codec } from "./json";
+import { OrderedMap } from "./OrderedMap";
+import { OrderedSet } from "./OrderedSet";
+import { collectionReviver } from "./reviver";
+import type { Cmp, Eq } from "./shared";
+import { TreeBag } from "./TreeBag";
+
+class Person implements Eq<Person>, Cmp<Person> {
+    constructor(
+        public id: number,
+        public name: string,
+    ) {}
+
+    eq(other: Person) {
+        return this.id === other.id;
+    }
+
+    cmp(other: Person) {
+        return this.name.localeCompare(other.name);
+    }
+}
+
+const personCodec: Codec<Person> = {
+    decode(json) {
+        const { id, name } = json as { id: number; name: string };
+        return new Person(id, name);
+    },
+};
+
+const caseInsensitive = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+const reversed = (a: string, b: string) => b.toLowerCase().localeCompare(a.toLowerCase());
+
+describe("OrderedMap JSON", () => {
+    it("should serialize entries in order with a version tag", () => {
+        const map = new OrderedMap([
+            [2, "two"],
+            [1, "one"],
+        ]);
+        expect(JSON.parse(JSON.stringify(map))).toEqual({
+            "@type": "OrderedMap",
+            "version": FORMAT_VERSION,
+            "entries": [
+                [1, "one"],
+                [2, "two"],
+            ],
+        });
+    });
+
+    it("should rebuild class instances through the codec", () => {
+        const team = new OrderedMap<Person, string>([
+            [new Person(2, "Mac"), "The Brains"],
+            [new Person(3, "Charlie"), "The Wildcard"],
+        ]);
+        const restored = OrderedMap.fromJSON(JSON.stringify(team), { key: personCodec });
+        expect(restored.get(new Person(2, "Mac"))).toBe("The Brains");
+        expect(Array.from(restored.keys()).every((k) => k instanceof Person)).toBe(true);
+        expect(Array.from(restored.keys(), (k) => k.name)).toEqual(["Charlie", "Mac"]);
+    });
+
+    it("should use the equality and comparator functions passed again", () => {
+        const map = new OrderedMap<string, number>(
+            [
+                ["a", 1],
+                ["B", 2],
+            ],
+            caseInsensitive,
+            reversed,
+        );
+        const restored = OrderedMap.fromJSON<string, number>(
+            JSON.stringify(map),
+            undefined,
+            caseInsensitive,
+            reversed,
+        );
+        expect(Array.from(restored.keys())).toEqual(["B", "a"]);
+        expect(restored.get("A")).toBe(1);
+    });
+
+    it("should reject other types and versions", () => {
+        const json = JSON.stringify(new OrderedSet([1]));
+        expect(() => OrderedMap.fromJSON(json)).toThrow(TypeError);
+        expect(() =>
+            OrderedMap.fromJSON({ "@type": "OrderedMap", "version": 99, "entries": [] }),
+        ).toThrow(TypeError);
+    });
+
+    it("should reject malformed contents", () => {
+        expect(() => OrderedMap.fromJSON('{"@type":"OrderedMap","version":1}')).toThrow(TypeError);
+        expect(() =>
+            OrderedMap.fromJSON('{"@type":"OrderedMap","version":1,"entries":[[1,2],[3]]}'),
+        ).toThrow(TypeError);
+        expect(() => OrderedSet.fromJSON('{"@type":"OrderedSet","version":1,"values":{}}')).toThrow(
+            TypeError,
+        );
+        expect(() =>
+            HashBag.fromJSON('{"@type":"HashBag","version":1,"counts":[["a",1.5]]}'),
+        ).toThrow(TypeError);
+    });
+});
+
+describe("OrderedSet JSON", () => {
+    it("should round-trip with a codec and custom functions", () => {
+        const set = new OrderedSet(["b", "C", "a"], caseInsensitive, reversed);
+        const restored = OrderedSet.fromJSON<string>(
+            JSON.stringify(set),
+            { decode: (json) => String(json) },
+            caseInsensitive,
+            reversed,
+        );
+        expect(Array.from(restored)).toEqual(["C", "b", "a"]);
+        expect(restored.has("B")).toBe(true);
+    });
+
+    it("should rebuild Eq and Cmp instances", () => {
+        const set = new OrderedSet([new Person(1, "Dennis"), new Person(5, "Dee")]);
+        const restored = OrderedSet.fromJSON(JSON.stringify(set), personCodec);
+        expect(restored.has(new Person(5, "Dee"))).toBe(true);
+        expect(Array.from(restored, (p) => p.name)).toEqual(["Dee", "Dennis"]);
+    });
+});
+
+describe("Bag JSON", () => {
+    it("should round-trip a HashBag with counts", () => {
+        const bag = new HashBag(["a", "b", "a"]);
+        const json = JSON.stringify(bag);
+        expect(JSON.parse(json)).toEqual({
+            "@type": "HashBag",
+            "version": FORMAT_VERSION,
+            "counts": [
+                ["a", 2],
+                ["b", 1],
+            ],
+        });
+        expect(HashBag.fromJSON<string>(json).eq(bag)).toBe(true);
+    });
+
+    it("should round-trip a TreeBag with custom functions", () => {
+        const bag = new TreeBag(["a", "B", "A"], caseInsensitive, reversed);
+        const restored = TreeBag.fromJSON<string>(
+            JSON.stringify(bag),
+            undefined,
+            caseInsensitive,
+            reversed,
+        );
+        expect(restored.getCount("a")).toBe(2);
+        expect(restored.toArray()).toEqual(["B", "a", "a"]);
+        expect(() => HashBag.fromJSON(JSON.stringify(bag))).toThrow(TypeError);
+    });
+});
+
+describe("collectionReviver", () => {
+    it("should rebuild nested collections", () => {
+        const data = {
+            groups: new OrderedMap([
+                ["odd", new OrderedSet([3, 1])],
+                ["even", new OrderedSet([2])],
+            ]),
+            tags: new HashBag(["x", "x"]),
+        };
+        const parsed = JSON.parse(JSON.stringify(data), collectionReviver());
+        expect(parsed.groups).toBeInstanceOf(OrderedMap);
+        expect(Array.from(parsed.groups.keys())).toEqual(["even", "odd"]);
+        expect(parsed.groups.get("odd")).toBeInstanceOf(OrderedSet);
+        expect(Array.from(parsed.groups.get("odd"))).toEqual([1, 3]);
+        expect(parsed.tags.getCount("x")).toBe(2);
+    });
+
+    it("should configure each collection by property name", () => {
+        const data = {
+            people: new OrderedSet([new Person(2, "Mac"), new Person(3, "Charlie")]),
+            names: new OrderedSet(["a", "B"], caseInsensitive, reversed),
+        };
+        const parsed = JSON.parse(
+            JSON.stringify(data),
+            collectionReviver((_, key) =>
+                key === "people"
+                    ? { key: personCodec }
+                    : { equalityFn: caseInsensitive, comparatorFn: reversed },
+            ),
+        );
+        expect(parsed.people.has(new Person(3, "Charlie"))).toBe(true);
+        expect(Array.from(parsed.names)).toEqual(["B", "a"]);
+        expect(parsed.names.has("b")).toBe(true);
+    });
+});
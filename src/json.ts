@@ -0,0 +1,104 @@
+/**
+ * The version of the JSON format written by the collections' `toJSON` methods. `fromJSON` rejects
+ * other versions.
+ */
+export const FORMAT_VERSION = 1;
+
+/**
+ * Rebuilds a value from its JSON form, such as a class instance from the plain object that
+ * `JSON.stringify` made of it.
+ */
+export interface Codec<T> {
+    decode(json: unknown): T;
+}
+
+/**
+ * Codecs for the keys and values of a map. Either may be left out to keep the JSON form as is.
+ */
+export interface EntryCodec<K, V> {
+    key?: Codec<K>;
+    value?: Codec<V>;
+}
+
+export interface SerializedOrderedMap {
+    "@type": "OrderedMap";
+    "version": number;
+    "entries": Array<[unknown, unknown]>;
+}
+
+export interface SerializedOrderedSet {
+    "@type": "OrderedSet";
+    "version": number;
+    "values": Array<unknown>;
+}
+
+export interface SerializedBag {
+    "@type": "HashBag" | "TreeBag";
+    "version": number;
+    "counts": Array<[unknown, number]>;
+}
+
+export type SerializedCollection = SerializedOrderedMap | SerializedOrderedSet | SerializedBag;
+
+const collectionTypes = new Set(["OrderedMap", "OrderedSet", "HashBag", "TreeBag"]);
+
+export function isSerializedCollection(json: unknown): json is SerializedCollection {
+    return (
+        typeof json === "object" &&
+        json !== null &&
+        "@type" in json &&
+        collectionTypes.has(json["@type"] as string) &&
+        "version" in json
+    );
+}
+
+/**
+ * Parses the JSON text if needed and checks that it holds the expected collection in the current
+ * format version.
+ */
+export function readSerialized<J extends SerializedCollection>(
+    json: string | J,
+    type: J["@type"],
+): J {
+    const parsed: unknown = typeof json === "string" ? JSON.parse(json) : json;
+    if (!isSerializedCollection(parsed) || parsed["@type"] !== type) {
+        throw new TypeError(`Expected a serialized ${type}`);
+    }
+    if (parsed.version !== FORMAT_VERSION) {
+        throw new TypeError(
+            `Unsupported ${type} format version ${parsed.version}, expected ${FORMAT_VERSION}`,
+        );
+    }
+    if (!hasValidContents(parsed)) {
+        throw new TypeError(`Malformed serialized ${type}`);
+    }
+    return parsed as J;
+}
+
+/**
+ * Checks the arrays that hold the contents, which the type guard above takes on trust.
+ */
+function hasValidContents(json: SerializedCollection): boolean {
+    switch (json["@type"]) {
+        case "OrderedMap":
+            return Array.isArray(json.entries) && json.entries.every(isPair);
+        case "OrderedSet":
+            return Array.isArray(json.values);
+        case "HashBag":
+        case "TreeBag":
+            return (
+                Array.isArray(json.counts) &&
+                json.counts.every(
+                    (count) => isPair(count) && Number.isInteger(count[1]) && count[1] > 0,
+                )
+            );
+    }
+}
+
+function isPair(json: unknown): json is [unknown, unknown] {
+    return Array.isArray(json) && json.length === 2;
+}
+
+export function decode<T>(codec: Codec<T> | undefined, json: unknown): T {
+    return codec !== undefined ? codec.decode(json) : (json as T);
+}
@@ -0,0 +1,195 @@
+import { describe, it, expect } from "bun:test";
+import { applyPatch, diff, mergeJoin, mergeSorted, outerJoin, zipByKey } from "./merge";
+import type { MapChange } from "./observable";
+import { OrderedMap } from "./OrderedMap";
+import { OrderedSet } from "./OrderedSet";
+import { reversed } from "./shared";
+
+describe("diff", () => {
+    it("should list added, removed and changed entries in key order", () => {
+        const cached = new OrderedMap([
+            ["a", 1],
+            ["b", 2],
+            ["d", 4],
+        ]);
+        const fresh = new OrderedMap([
+            ["b", 20],
+            ["c", 3],
+            ["d", 4],
+            ["e", 5],
+        ]);
+        expect(Array.from(diff(cached, fresh))).toEqual([
+            { type: "removed", key: "a", value: 1 },
+            { type: "changed", key: "b", oldValue: 2, value: 20 },
+            { type: "added", key: "c", value: 3 },
+            { type: "added", key: "e", value: 5 },
+        ]);
+        expect(Array.from(diff(cached, cached))).toEqual([]);
+    });
+
+    it("should compare values with valueEq", () => {
+        const a = new OrderedMap([[1, { name: "x" }]]);
+        const b = new OrderedMap([[1, { name: "x" }]]);
+        expect(Array.from(diff(a, b))).toHaveLength(1);
+        expect(Array.from(diff(a, b, (x, y) => x.name === y.name))).toEqual([]);
+    });
+
+    it("should follow the first map's order", () => {
+        const a = new OrderedMap(
+            [
+                [1, "a"],
+                [2, "b"],
+            ],
+            undefined,
+            reversed(),
+        );
+        const b = new OrderedMap([
+            [2, "B"],
+            [3, "c"],
+        ]);
+        expect(Array.from(diff(a, b))).toEqual([
+            { type: "added", key: 3, value: "c" },
+            { type: "changed", key: 2, oldValue: "b", value: "B" },
+            { type: "removed", key: 1, value: "a" },
+        ]);
+    });
+
+    it("should replay a diff in one batch", () => {
+        const cached = new OrderedMap([
+            [1, "a"],
+            [2, "b"],
+            [3, "c"],
+        ]);
+        const fresh = new OrderedMap([
+            [2, "B"],
+            [3, "c"],
+            [4, "d"],
+        ]);
+        const notifications: Array<ReadonlyArray<MapChange<number, string>>> = [];
+        cached.subscribe((changes) => notifications.push(changes));
+        applyPatch(cached, diff(cached, fresh));
+        expect(cached.eq(fresh)).toBe(true);
+        expect(notifications).toHaveLength(1);
+        expect(notifications[0]).toHaveLength(3);
+    });
+});
+
+describe("joins", () => {
+    const left = new OrderedMap([
+        [1, "one"],
+        [2, "two"],
+        [4, "four"],
+    ]);
+    const right: Array<[number, boolean]> = [
+        [2, true],
+        [3, false],
+        [4, false],
+    ];
+
+    it("should inner join by key", () => {
+        expect(Array.from(mergeJoin(left, right))).toEqual([
+            [2, "two", true],
+            [4, "four", false],
+        ]);
+        expect(Array.from(mergeJoin(left, []))).toEqual([]);
+    });
+
+    it("should outer join by key", () => {
+        expect(Array.from(outerJoin(left, right))).toEqual([
+            [1, "one", undefined],
+            [2, "two", true],
+            [3, undefined, false],
+            [4, "four", false],
+        ]);
+    });
+
+    it("should zip sets of records by key", () => {
+        type Row = { id: number; version: number };
+        const byId = (a: Row, b: Row) => a.id - b.id;
+        const before = new OrderedSet<Row>(
+            [
+                { id: 1, version: 1 },
+                { id: 2, version: 1 },
+            ],
+            undefined,
+            byId,
+        );
+        const after = new OrderedSet<Row>(
+            [
+                { id: 2, version: 2 },
+                { id: 3, version: 1 },
+            ],
+            undefined,
+            byId,
+        );
+        const pairs = Array.from(zipByKey(before, after, (row) => row.id));
+        expect(pairs.map(([a, b]) => [a?.version, b?.version])).toEqual([
+            [1, undefined],
+            [1, 2],
+            [undefined, 1],
+        ]);
+    });
+
+    it("should join with a custom order and reject unsorted input", () => {
+        const descending = reversed<number>();
+        const a: Array<[number, string]> = [
+            [3, "c"],
+            [1, "a"],
+        ];
+        const b: Array<[number, string]> = [
+            [2, "B"],
+            [1, "A"],
+        ];
+        expect(Array.from(outerJoin(a, b, descending))).toEqual([
+            [3, "c", undefined],
+            [2, undefined, "B"],
+            [1, "a", "A"],
+        ]);
+        expect(() => Array.from(mergeJoin(a, b))).toThrow(RangeError);
+    });
+});
+
+describe("mergeSorted", () => {
+    it("should merge any number of sorted sequences", () => {
+        const cmp = (a: number, b: number) => a - b;
+        expect(
+            Array.from(mergeSorted([1, 4, 7], new OrderedSet([2, 5, 8]), [], [0, 3, 6, 9], cmp)),
+        ).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+        expect(Array.from(mergeSorted<number>(cmp))).toEqual([]);
+        expect(() => Array.from(mergeSorted([1, 3], [2, 1], cmp))).toThrow(RangeError);
+    });
+
+    it("should keep equal items in the order of their sequences", () => {
+        const byRank = (a: [number, string], b: [number, string]) => a[0] - b[0];
+        const merged = mergeSorted<[number, string]>(
+            [
+                [1, "a"],
+                [2, "a"],
+            ],
+            [[1, "b"]],
+            [
+                [0, "c"],
+                [1, "c"],
+            ],
+            byRank,
+        );
+        expect(Array.from(merged, ([rank, source]) => `${rank}${source}`)).toEqual([
+            "0c",
+            "1a",
+            "1b",
+            "1c",
+            "2a",
+        ]);
+    });
+
+    it("should be lazy", () => {
+        function* evens() {
+            for (let i = 0; ; i += 2) {
+                yield i;
+            }
+        }
+        const merged = mergeSorted(evens(), [1, 3], (a, b) => a - b);
+        const firstFive = Array.from({ length: 5 }, () => merged.next().value);
+        expect(firstFive).toEqual([0, 1, 2, 3, 4]);
+    });
+});
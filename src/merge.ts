@@ -0,0 +1,195 @@
+import type { OrderedMap } from "./OrderedMap";
+import { PriorityQueue } from "./PriorityQueue";
+import { comparing, defaultComparatorFn, defaultEqualityFn, thenComparing } from "./shared";
+
+/**
+ * A difference between two maps, as found by `diff`.
+ */
+export type MapDiff<K, V> =
+    | { type: "added"; key: K; value: V }
+    | { type: "removed"; key: K; value: V }
+    | { type: "changed"; key: K; oldValue: V; value: V };
+
+/**
+ * Finds what changed from map `a` to map `b`, in a single pass over both in `a`'s key order.
+ * Keys are looked up with each map's own equality, so both maps should use the same one; values
+ * are compared with `valueEq`.
+ */
+export function* diff<K, V>(
+    a: OrderedMap<K, V>,
+    b: OrderedMap<K, V>,
+    valueEq: (x: V, y: V) => boolean = defaultEqualityFn,
+): IterableIterator<MapDiff<K, V>> {
+    const cmp = a.comparatorFn;
+    const entriesOfB =
+        b.comparatorFn === cmp
+            ? b.entries()
+            : Array.from(b.entries()).sort(comparing(([key]) => key, cmp));
+    const keyOf = ([key]: [K, V]) => key;
+    // Keys that only tie by the comparator can be paired up here, so matches go by lookup.
+    for (const [left, right] of align(a.entries(), entriesOfB, keyOf, keyOf, cmp)) {
+        if (left !== undefined) {
+            const [key, oldValue] = left;
+            if (!b.has(key)) {
+                yield { type: "removed", key, value: oldValue };
+            } else {
+                const value = b.get(key) as V;
+                if (!valueEq(oldValue, value)) {
+                    yield { type: "changed", key, oldValue, value };
+                }
+            }
+        }
+        if (right !== undefined && !a.has(right[0])) {
+            yield { type: "added", key: right[0], value: right[1] };
+        }
+    }
+}
+
+/**
+ * Replays the differences from `diff`, in one batch. The patch is read in full before the map
+ * changes, so it can be a `diff` that is still reading the map.
+ */
+export function applyPatch<K, V>(map: OrderedMap<K, V>, patch: Iterable<MapDiff<K, V>>): void {
+    const changes = Array.from(patch);
+    map.batch(() => {
+        for (const change of changes) {
+            if (change.type === "removed") {
+                map.delete(change.key);
+            } else {
+                map.set(change.key, change.value);
+            }
+        }
+    });
+}
+
+/**
+ * Pairs the entries of two sequences sorted by key, such as two OrderedMaps, yielding the key
+ * with both values for every key that is in both.
+ * @throws RangeError if either sequence is out of order
+ */
+export function* mergeJoin<K, A, B>(
+    a: Iterable<[K, A]>,
+    b: Iterable<[K, B]>,
+    cmp: (x: K, y: K) => number = defaultComparatorFn,
+): IterableIterator<[K, A, B]> {
+    for (const [left, right] of align(a, b, entryKey, entryKey, cmp)) {
+        if (left !== undefined && right !== undefined) {
+            yield [left[0], left[1], right[1]];
+        }
+    }
+}
+
+/**
+ * Like `mergeJoin`, but yields every key of either sequence, with undefined for the value that
+ * is missing.
+ * @throws RangeError if either sequence is out of order
+ */
+export function* outerJoin<K, A, B>(
+    a: Iterable<[K, A]>,
+    b: Iterable<[K, B]>,
+    cmp: (x: K, y: K) => number = defaultComparatorFn,
+): IterableIterator<[K, A | undefined, B | undefined]> {
+    for (const [left, right] of align(a, b, entryKey, entryKey, cmp)) {
+        const key = (left ?? right)![0];
+        yield [key, left?.[1], right?.[1]];
+    }
+}
+
+/**
+ * Pairs up the items of two sequences sorted by the key `keyFn` gives them, such as two
+ * OrderedSets of records, with undefined in place of an item the other sequence has no match
+ * for. Items with tied keys are paired in order.
+ * @throws RangeError if either sequence is out of order
+ */
+export function zipByKey<T, K>(
+    a: Iterable<T>,
+    b: Iterable<T>,
+    keyFn: (item: T) => K,
+    cmp: (x: K, y: K) => number = defaultComparatorFn,
+): IterableIterator<[T | undefined, T | undefined]> {
+    return align(a, b, keyFn, keyFn, cmp);
+}
+
+/**
+ * Merges sequences that are each sorted by `cmp` into one sorted sequence, lazily. Items that
+ * compare equal come out in the order of the sequences they are from.
+ * @throws RangeError if any sequence is out of order
+ */
+export function* mergeSorted<T>(
+    ...args: [...iterables: Array<Iterable<T>>, cmp: (a: T, b: T) => number]
+): IterableIterator<T> {
+    const cmp = args[args.length - 1] as (a: T, b: T) => number;
+    const iterables = args.slice(0, -1) as Array<Iterable<T>>;
+    const queue = new PriorityQueue<Head<T>>(
+        undefined,
+        thenComparing(
+            (x, y) => cmp(x.value, y.value),
+            (x, y) => x.source - y.source,
+        ),
+    );
+    iterables.forEach((iterable, source) => {
+        const rest = checkSorted(iterable, cmp);
+        const next = rest.next();
+        if (!next.done) {
+            queue.push({ value: next.value, source, rest });
+        }
+    });
+    for (let head = queue.pop(); head !== undefined; head = queue.pop()) {
+        yield head.value;
+        const next = head.rest.next();
+        if (!next.done) {
+            queue.push({ value: next.value, source: head.source, rest: head.rest });
+        }
+    }
+}
+
+interface Head<T> {
+    value: T;
+    source: number;
+    rest: Iterator<T>;
+}
+
+function entryKey<K>([key]: [K, unknown]): K {
+    return key;
+}
+
+/**
+ * Walks two sequences sorted by key side by side, pairing items whose keys compare equal.
+ */
+function* align<A, B, K>(
+    a: Iterable<A>,
+    b: Iterable<B>,
+    keyOfA: (item: A) => K,
+    keyOfB: (item: B) => K,
+    cmp: (x: K, y: K) => number,
+): IterableIterator<[A | undefined, B | undefined]> {
+    const left = checkSorted(a, comparing(keyOfA, cmp));
+    const right = checkSorted(b, comparing(keyOfB, cmp));
+    let l = left.next();
+    let r = right.next();
+    while (!l.done || !r.done) {
+        const order = l.done ? 1 : r.done ? -1 : cmp(keyOfA(l.value), keyOfB(r.value));
+        if (order < 0) {
+            yield [l.value as A, undefined];
+            l = left.next();
+        } else if (order > 0) {
+            yield [undefined, r.value as B];
+            r = right.next();
+        } else {
+            yield [l.value as A, r.value as B];
+            l = left.next();
+            r = right.next();
+        }
+    }
+}
+
+function* checkSorted<T>(values: Iterable<T>, cmp: (a: T, b: T) => number): IterableIterator<T> {
+    let previous: { value: T } | undefined;
+    for (const value of values) {
+        if (previous !== undefined && cmp(previous.value, value) > 0) {
+            throw new RangeError("The sequence is not sorted");
+        }
+        previous = { value };
+        yield value;
+    }
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import { setListenerErrorHandler, type MapChange, type SetChange } from "./observable";
+import { OrderedMap } from "./OrderedMap";
+import { OrderedSet } from "./OrderedSet";
+
+describe("observable collections", () => {
+    afterEach(() => {
+        setListenerErrorHandler(undefined);
+    });
+
+    it("should report map changes with sorted indexes", () => {
+        const map = new OrderedMap([
+            ["b", 2],
+            ["d", 4],
+        ]);
+        const changes: Array<MapChange<string, number>> = [];
+        map.subscribe((batch) => changes.push(...batch));
+        map.set("c", 3);
+        map.set("b", 20);
+        map.delete("d");
+        map.delete("x");
+        map.pollFirstEntry();
+        map.clear();
+        map.clear();
+        expect(changes).toEqual([
+            { type: "added", key: "c", value: 3, index: 1 },
+            { type: "updated", key: "b", oldValue: 2, value: 20, index: 0 },
+            { type: "removed", key: "d", value: 4, index: 2 },
+            { type: "removed", key: "b", value: 20, index: 0 },
+            { type: "cleared" },
+        ]);
+    });
+
+    it("should report set changes, including through views and cursors", () => {
+        const set = new OrderedSet([10, 30]);
+        const changes: Array<SetChange<number>> = [];
+        set.subscribe((batch) => changes.push(...batch));
+        set.add(20);
+        set.add(20);
+        set.headSet(15).delete(10);
+        const cursor = set.cursor();
+        cursor.seek(30);
+        cursor.remove();
+        expect(changes).toEqual([
+            { type: "added", value: 20, index: 1 },
+            { type: "removed", value: 10, index: 0 },
+            { type: "removed", value: 30, index: 1 },
+        ]);
+    });
+
+    it("should deliver a batch in one notification", () => {
+        const set = new OrderedSet<number>();
+        const notifications: Array<ReadonlyArray<SetChange<number>>> = [];
+        set.subscribe((changes) => notifications.push(changes));
+        const result = set.batch(() => {
+            set.add(2);
+            set.batch(() => set.add(1));
+            set.delete(2);
+            return set.size;
+        });
+        expect(result).toBe(1);
+        expect(notifications).toEqual([
+            [
+                { type: "added", value: 2, index: 0 },
+                { type: "added", value: 1, index: 0 },
+                { type: "removed", value: 2, index: 1 },
+            ],
+        ]);
+        set.batch(() => {});
+        expect(notifications).toHaveLength(1);
+        expect(() =>
+            set.batch(() => {
+                set.add(5);
+                throw new Error("failed");
+            }),
+        ).toThrow("failed");
+        expect(notifications[1]).toEqual([{ type: "added", value: 5, index: 1 }]);
+    });
+
+    it("should unsubscribe deterministically", () => {
+        const map = new OrderedMap<string, number>();
+        const calls: string[] = [];
+        let unsubscribeSecond = () => {};
+        const unsubscribeFirst = map.subscribe(() => {
+            calls.push("first");
+            unsubscribeSecond();
+        });
+        unsubscribeSecond = map.subscribe(() => calls.push("second"));
+        map.set("a", 1);
+        expect(calls).toEqual(["first"]);
+        unsubscribeFirst();
+        unsubscribeFirst();
+        map.set("b", 2);
+        expect(calls).toEqual(["first"]);
+    });
+
+    it("should deliver changes made by listeners after the current notification", () => {
+        const set = new OrderedSet<number>();
+        const seen: Array<[string, number]> = [];
+        set.subscribe((changes) => {
+            for (const change of changes) {
+                if (change.type === "added") {
+                    seen.push(["first", change.value]);
+                    if (change.value < 3) {
+                        set.add(change.value + 1);
+                    }
+                }
+            }
+        });
+        set.subscribe((changes) => {
+            for (const change of changes) {
+                if (change.type === "added") {
+                    seen.push(["second", change.value]);
+                }
+            }
+        });
+        set.add(1);
+        expect(seen).toEqual([
+            ["first", 1],
+            ["second", 1],
+            ["first", 2],
+            ["second", 2],
+            ["first", 3],
+            ["second", 3],
+        ]);
+    });
+
+    it("should isolate listener errors", () => {
+        const errors: unknown[] = [];
+        setListenerErrorHandler((error) => errors.push(error));
+        const set = new OrderedSet<number>();
+        const calls: number[] = [];
+        set.subscribe(() => {
+            throw new Error("listener failed");
+        });
+        set.subscribe((changes) => calls.push(changes.length));
+        set.add(1);
+        expect(set.has(1)).toBe(true);
+        expect(calls).toEqual([1]);
+        expect(errors).toHaveLength(1);
+        expect((errors[0] as Error).message).toBe("listener failed");
+    });
+});
@@ -0,0 +1,133 @@
+/**
+ * A change to an OrderedMap. Indexes are positions in key order: where an entry was added or
+ * updated after the change, and where it was removed from before it. Within one notification,
+ * each change's index applies to the map as it was after the changes before it.
+ */
+export type MapChange<K, V> =
+    | { type: "added"; key: K; value: V; index: number }
+    | { type: "updated"; key: K; oldValue: V; value: V; index: number }
+    | { type: "removed"; key: K; value: V; index: number }
+    | { type: "cleared" };
+
+/**
+ * A change to an OrderedSet, with indexes as for MapChange.
+ */
+export type SetChange<T> =
+    | { type: "added"; value: T; index: number }
+    | { type: "removed"; value: T; index: number }
+    | { type: "cleared" };
+
+/**
+ * Receives the changes of one operation, or of one batch, in the order they were made.
+ */
+export type ChangeListener<C> = (changes: ReadonlyArray<C>) => void;
+
+export type ListenerErrorHandler = (error: unknown) => void;
+
+/**
+ * Rethrows a listener's error in a microtask, so that it is reported like an uncaught error
+ * without interrupting the change or the other listeners.
+ */
+export const reportListenerError: ListenerErrorHandler = (error) => {
+    queueMicrotask(() => {
+        throw error;
+    });
+};
+
+let errorHandler: ListenerErrorHandler = reportListenerError;
+
+/**
+ * Sets where errors thrown by change listeners go, or puts back `reportListenerError` with
+ * undefined.
+ */
+export function setListenerErrorHandler(handler: ListenerErrorHandler | undefined): void {
+    errorHandler = handler ?? reportListenerError;
+}
+
+interface Subscription<C> {
+    listener: ChangeListener<C>;
+}
+
+/**
+ * Delivers the changes of a collection to its listeners. Changes made while listeners are being
+ * notified, such as by a listener, are delivered after the current notification, so every
+ * listener sees notifications in the same order.
+ */
+export class ChangeNotifier<C> {
+    private subscriptions = new Set<Subscription<C>>();
+    private batched?: Array<C>;
+    private queue: Array<ReadonlyArray<C>> = [];
+    private delivering = false;
+
+    /**
+     * Whether anyone is listening, so that collections can skip building change records.
+     */
+    get active(): boolean {
+        return this.subscriptions.size > 0;
+    }
+
+    /**
+     * Adds a listener. The same listener can be added more than once, and is then called once
+     * for each subscription.
+     * @returns a function that removes this subscription. It takes effect at once: a listener
+     * removed during a notification is not called for it if it hasn't been yet.
+     */
+    subscribe(listener: ChangeListener<C>): () => void {
+        const subscription = { listener };
+        this.subscriptions.add(subscription);
+        return () => {
+            this.subscriptions.delete(subscription);
+        };
+    }
+
+    /**
+     * Runs the function and delivers the changes it makes in one notification when it returns or
+     * throws. Nested batches join the outermost one.
+     */
+    batch<R>(fn: () => R): R {
+        if (this.batched !== undefined) {
+            return fn();
+        }
+        this.batched = [];
+        try {
+            return fn();
+        } finally {
+            const changes = this.batched;
+            this.batched = undefined;
+            if (changes.length > 0) {
+                this.deliver(changes);
+            }
+        }
+    }
+
+    emit(change: C): void {
+        if (this.batched !== undefined) {
+            this.batched.push(change);
+        } else {
+            this.deliver([change]);
+        }
+    }
+
+    private deliver(changes: ReadonlyArray<C>): void {
+        this.queue.push(changes);
+        if (this.delivering) {
+            return;
+        }
+        this.delivering = true;
+        try {
+            for (let next = this.queue.shift(); next !== undefined; next = this.queue.shift()) {
+                for (const subscription of Array.from(this.subscriptions)) {
+                    if (this.subscriptions.has(subscription)) {
+                        try {
+                            subscription.listener(next);
+                        } catch (error) {
+                            errorHandler(error);
+                        }
+                    }
+                }
+            }
+        } finally {
+            this.delivering = false;
+        }
+    }
+}
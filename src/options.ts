@@ -0,0 +1,20 @@
+import type { IterationPolicy } from "./iteration";
+import type { ViolationHandler } from "./validation";
+
+/**
+ * Options shared by the sorted collections.
+ */
+export interface CollectionOptions {
+    /**
+     * Checks that the equality, comparator and hash functions agree and that keys aren't mutated,
+     * reporting violations to the handler. `true` uses the default handler, which throws unless
+     * `setDefaultViolationHandler` set another. Off by default, at no cost.
+     */
+    validate?: ViolationHandler | boolean;
+    /**
+     * What iterators see when the collection changes under them. Sorted collections default to
+     * `"snapshot"`, which costs nothing until the next change; other collections default to
+     * `"live"`, like the built-in Set.
+     */
+    iteration?: IterationPolicy;
+}
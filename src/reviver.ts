@@ -0,0 +1,65 @@
+import { HashBag } from "./HashBag";
+import { isSerializedCollection, type Codec, type SerializedCollection } from "./json";
+import { OrderedMap } from "./OrderedMap";
+import { OrderedSet } from "./OrderedSet";
+import type { HashCode } from "./shared";
+import { TreeBag } from "./TreeBag";
+
+/**
+ * How to rebuild one serialized collection. The functions are declared as methods so that
+ * options for any key and value types can be returned where the types aren't known.
+ */
+export interface ReviveOptions<K = unknown, V = unknown> {
+    /** Rebuilds map keys, or set and bag elements. */
+    key?: Codec<K>;
+    /** Rebuilds map values. */
+    value?: Codec<V>;
+    equalityFn?(a: K, b: K): boolean;
+    comparatorFn?(a: K, b: K): number;
+    hashFn?(value: K): HashCode;
+}
+
+/**
+ * Returns a reviver for `JSON.parse` that rebuilds the collections it finds, innermost first, so
+ * collections nested in one another come back whole.
+ * @param configure picks the codecs and functions for each collection, given its JSON form and
+ * the property name it was found under
+ */
+export function collectionReviver(
+    configure?: (json: SerializedCollection, key: string) => ReviveOptions | undefined,
+): (key: string, value: unknown) => unknown {
+    return (key, value) => {
+        if (!isSerializedCollection(value)) {
+            return value;
+        }
+        const options = configure?.(value, key) ?? {};
+        switch (value["@type"]) {
+            case "OrderedMap":
+                return OrderedMap.fromJSON(
+                    value,
+                    { key: options.key, value: options.value },
+                    options.equalityFn,
+                    options.comparatorFn,
+                    options.hashFn,
+                );
+            case "OrderedSet":
+                return OrderedSet.fromJSON(
+                    value,
+                    options.key,
+                    options.equalityFn,
+                    options.comparatorFn,
+                    options.hashFn,
+                );
+            case "HashBag":
+                return HashBag.fromJSON(value, options.key, options.equalityFn, options.hashFn);
+            case "TreeBag":
+                return TreeBag.fromJSON(
+                    value,
+                    options.key,
+                    options.equalityFn,
+                    options.comparatorFn,
+                    options.hashFn,
+                );
+        }
+    };
+}
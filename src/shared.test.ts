@@ -0,0 +1,319 @@
+import { describe, it, expect } from "bun:test";
+import { HashBag } from "./HashBag";
+import { OrderedMap } from "./OrderedMap";
+import { OrderedSet } from "./OrderedSet";
+import {
+    caseInsensitive,
+    Collection,
+    comparing,
+    defaultHashFn,
+    deriveCmp,
+    deriveEq,
+    eqBy,
+    hashFnFor,
+    implementsCmp,
+    implementsHash,
+    lexicographic,
+    localeCompare,
+    naturalOrder,
+    nullsFirst,
+    nullsLast,
+    Ordering,
+    reversed,
+    structuralEq,
+    structuralHash,
+    thenComparing,
+    type Cmp,
+    type Hash,
+} from "./shared";
+
+class Point {
+    constructor(
+        public x: number,
+        public y: number,
+    ) {}
+
+    eq(other: Point): boolean {
+        return this.x === other.x && this.y === other.y;
+    }
+
+    hash(): number {
+        return this.x * 31 + this.y;
+    }
+}
+
+class Named {
+    constructor(public name: string) {}
+
+    eq(other: Named): boolean {
+        return this.name === other.name;
+    }
+}
+
+describe("implementsHash", () => {
+    it("should require both eq and hash", () => {
+        expect(implementsHash(new Point(1, 2))).toBe(true);
+        expect(implementsHash(new Named("a"))).toBe(false);
+        expect(implementsHash({ hash: () => 1 })).toBe(false);
+        expect(implementsHash(1)).toBe(false);
+    });
+});
+
+describe("defaultHashFn", () => {
+    it("should use the hash method of Hash implementers", () => {
+        expect(defaultHashFn(new Point(1, 2))).toBe(new Point(1, 2).hash());
+    });
+
+    it("should put Eq implementers without hash in one bucket", () => {
+        expect(defaultHashFn(new Named("a"))).toBe(defaultHashFn(new Named("b")));
+    });
+
+    it("should hash primitives by value", () => {
+        expect(defaultHashFn(42)).toBe(defaultHashFn(42));
+        expect(defaultHashFn("abc")).toBe(defaultHashFn("abc"));
+        expect(defaultHashFn(10n)).toBe(defaultHashFn(10n));
+        expect(defaultHashFn(true)).not.toBe(defaultHashFn(false));
+    });
+
+    it("should hash tuples and plain records by identity", () => {
+        const tuple = [1, "a"];
+        expect(defaultHashFn(tuple)).toBe(defaultHashFn(tuple));
+        expect(defaultHashFn([1, "a"])).not.toBe(defaultHashFn([1, "a"]));
+        expect(defaultHashFn({ a: 1 })).not.toBe(defaultHashFn({ a: 1 }));
+    });
+
+    it("should hash other objects by identity", () => {
+        const date = new Date(0);
+        expect(defaultHashFn(date)).toBe(defaultHashFn(date));
+        expect(defaultHashFn(date)).not.toBe(defaultHashFn(new Date(0)));
+    });
+});
+
+describe("Collection set algebra", () => {
+    it("should return collections", () => {
+        const a = new Collection([1, 2, 3]);
+        const b = new Set([2, 3, 4]);
+        expect(a.union(b)).toBeInstanceOf(Collection);
+        expect(a.union(b).toArray()).toEqual([1, 2, 3, 4]);
+        expect(a.intersection(b).toArray()).toEqual([2, 3]);
+        expect(a.difference(b).toArray()).toEqual([1]);
+        expect(a.symmetricDifference(b).toArray()).toEqual([1, 4]);
+    });
+
+    it("should compare membership", () => {
+        const a = new Collection([1, 2]);
+        expect(a.isSubsetOf(new Set([1, 2, 3]))).toBe(true);
+        expect(a.isSubsetOf(new Set([1]))).toBe(false);
+        expect(a.isSupersetOf(new Set([1]))).toBe(true);
+        expect(a.isDisjointFrom(new Set([3]))).toBe(true);
+        expect(a.isDisjointFrom(new Set([2]))).toBe(false);
+    });
+
+    it("should compare and hash by contents", () => {
+        const a = new Collection([3, 1, 2]);
+        expect(a.eq(new Collection([1, 2, 3]))).toBe(true);
+        expect(a.eq(new Collection([1, 2]))).toBe(false);
+        expect(a.hash()).toBe(new Collection([2, 3, 1]).hash());
+        expect(a.cmp(new Collection([1, 2, 3]))).toBe(Ordering.Equal);
+        expect(a.cmp(new Collection([1, 2, 4]))).toBe(Ordering.Less);
+        expect(a.cmp(new Collection([1, 2]))).toBe(Ordering.Greater);
+        const before = a.hash();
+        a.delete(3);
+        expect(a.hash()).not.toBe(before);
+        expect(new Collection([new Collection([1]), new Collection([1])]).size).toBe(2);
+        expect(new OrderedSet([new Collection([1, 2]), new Collection([2, 1])]).size).toBe(1);
+    });
+
+    it("should only equal collections of the same kind", () => {
+        const set = new OrderedSet([1]);
+        const collection = new Collection([1]);
+        const bag = new HashBag([1]);
+        const map = new OrderedMap([[1, 1]]);
+        expect(collection.eq(set)).toBe(true);
+        expect(set.eq(collection)).toBe(true);
+        expect(collection.hash()).toBe(set.hash());
+        const pairs: Array<[Collection<number> | OrderedSet<number>, HashBag<number>]> = [
+            [collection, bag],
+            [set, bag],
+        ];
+        for (const [a, b] of pairs) {
+            expect(a.eq(b)).toBe(false);
+            expect(b.eq(a)).toBe(false);
+            expect(a.cmp(b)).toBe(Ordering.Less);
+            expect(b.cmp(a)).toBe(Ordering.Greater);
+        }
+        for (const a of [collection, set, bag]) {
+            expect(a.eq(map)).toBe(false);
+            expect(map.eq(a as unknown as ReadonlyMap<unknown, unknown>)).toBe(false);
+            expect(a.cmp(map)).toBe(Ordering.Less);
+            expect(map.cmp(a as unknown as ReadonlyMap<unknown, unknown>)).toBe(Ordering.Greater);
+        }
+    });
+});
+
+describe("comparators", () => {
+    type User = { name: string; age: number | null };
+    const users: User[] = [
+        { name: "bo", age: 30 },
+        { name: "al", age: null },
+        { name: "cy", age: 25 },
+        { name: "al", age: 40 },
+    ];
+
+    it("should compare by an extracted key", () => {
+        const byAge = comparing((u: User) => u.age ?? 0);
+        expect(
+            users
+                .slice()
+                .sort(byAge)
+                .map((u) => u.name),
+        ).toEqual(["al", "cy", "bo", "al"]);
+        expect(byAge(users[0]!, users[2]!)).toBe(Ordering.Greater);
+    });
+
+    it("should break ties with thenComparing", () => {
+        const cmp = thenComparing(
+            comparing((u: User) => u.name),
+            reversed(comparing((u: User) => u.age ?? 0)),
+        );
+        expect(
+            users
+                .slice()
+                .sort(cmp)
+                .map((u) => `${u.name}${u.age}`),
+        ).toEqual(["al40", "alnull", "bo30", "cy25"]);
+    });
+
+    it("should reverse the natural order by default", () => {
+        expect([1, 3, 2].sort(reversed())).toEqual([3, 2, 1]);
+        expect(reversed<number>()(1, 2)).toBe(Ordering.Greater);
+        expect([3, 1, 2].sort(naturalOrder())).toEqual([1, 2, 3]);
+    });
+
+    it("should place nulls first or last", () => {
+        const values = [2, null, 1];
+        expect(values.slice().sort(nullsFirst())).toEqual([null, 1, 2]);
+        expect(values.slice().sort(nullsLast())).toEqual([1, 2, null]);
+        expect(nullsFirst<number>()(undefined, 1)).toBe(Ordering.Less);
+        expect(nullsFirst<number>()(null, undefined)).toBe(Ordering.Equal);
+        expect(nullsLast<number>()(undefined, 1)).toBe(Ordering.Greater);
+    });
+
+    it("should compare arrays lexicographically", () => {
+        const cmp = lexicographic<number>();
+        expect(cmp([1, 2], [1, 3])).toBe(Ordering.Less);
+        expect(cmp([1, 2], [1, 2, 0])).toBe(Ordering.Less);
+        expect(cmp([2], [1, 9])).toBe(Ordering.Greater);
+        expect(cmp([1, 2], [1, 2])).toBe(Ordering.Equal);
+    });
+
+    it("should compare strings with a collator", () => {
+        expect(["file10", "file2"].sort(localeCompare("en", { numeric: true }))).toEqual([
+            "file2",
+            "file10",
+        ]);
+        expect(localeCompare("en", { sensitivity: "base" })("a", "A")).toBe(Ordering.Equal);
+    });
+
+    it("should work as an OrderedMap comparator", () => {
+        const map = new OrderedMap<number, string>(undefined, undefined, reversed());
+        map.set(1, "one").set(3, "three").set(2, "two");
+        expect(Array.from(map.keys())).toEqual([3, 2, 1]);
+    });
+});
+
+describe("structuralHash", () => {
+    it("should hash tuples by their contents", () => {
+        expect(structuralHash([1, "a"])).toBe(structuralHash([1, "a"]));
+        expect(structuralHash([1, "a"])).not.toBe(structuralHash(["a", 1]));
+    });
+
+    it("should hash plain records by their contents regardless of field order", () => {
+        expect(structuralHash({ a: 1, b: [2] })).toBe(structuralHash({ b: [2], a: 1 }));
+        expect(structuralHash({ a: 1 })).not.toBe(structuralHash({ a: 2 }));
+    });
+
+    it("should hash values that contain themselves", () => {
+        const list: unknown[] = [1];
+        list.push(list);
+        expect(structuralHash(list)).toBe(structuralHash(list));
+    });
+});
+
+describe("equality builders", () => {
+    it("should compare by an extracted key", () => {
+        const byId = eqBy((x: { id: number; v: string }) => x.id);
+        expect(byId({ id: 1, v: "a" }, { id: 1, v: "b" })).toBe(true);
+        expect(byId({ id: 1, v: "a" }, { id: 2, v: "a" })).toBe(false);
+        expect(hashFnFor(byId)!({ id: 1, v: "a" })).toBe(hashFnFor(byId)!({ id: 1, v: "b" }));
+    });
+
+    it("should compare tuples and records structurally", () => {
+        expect(structuralEq([1, { a: [2] }], [1, { a: [2] }])).toBe(true);
+        expect(structuralEq({ a: 1, b: 2 }, { b: 2, a: 1 })).toBe(true);
+        expect(structuralEq({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+        expect(structuralEq([1, 2], [1, 2, 3])).toBe(false);
+    });
+
+    it("should compare values that contain themselves", () => {
+        const a: unknown[] = [1];
+        a.push(a);
+        const b: unknown[] = [1];
+        b.push(b);
+        const c: unknown[] = [2];
+        c.push(c);
+        expect(structuralEq(a, a)).toBe(true);
+        expect(structuralEq(a, b)).toBe(true);
+        expect(structuralEq(a, c)).toBe(false);
+        const record: Record<string, unknown> = { id: 1 };
+        record["self"] = record;
+        expect(structuralEq(record, { id: 1, self: record })).toBe(true);
+        expect(structuralHash(a)).toBe(structuralHash(b));
+    });
+
+    it("should compare strings ignoring case", () => {
+        expect(caseInsensitive("Hello", "hELLO")).toBe(true);
+        expect(caseInsensitive("a", "b")).toBe(false);
+    });
+
+    it("should let collections bucket by the paired hash function", () => {
+        const set = new OrderedSet<[number, string]>([[1, "a"]], structuralEq);
+        expect(set.has([1, "a"])).toBe(true);
+        expect(set["hashFn"]).toBe(structuralHash);
+        const names = new OrderedMap<string, number>([["Ann", 1]], caseInsensitive);
+        expect(names.get("ANN")).toBe(1);
+    });
+});
+
+describe("derived Eq and Cmp", () => {
+    class Version {
+        constructor(
+            public major: number,
+            public minor: number,
+            public label: string,
+        ) {}
+    }
+    interface Version extends Hash<Version>, Cmp<Version> {}
+    deriveEq(Version, ["major", "minor"]);
+    deriveCmp(Version, ["major", "minor"]);
+
+    it("should implement the protocols from the fields", () => {
+        const a = new Version(1, 2, "a");
+        expect(implementsHash(a)).toBe(true);
+        expect(implementsCmp(a)).toBe(true);
+        expect(a.eq(new Version(1, 2, "b"))).toBe(true);
+        expect(a.eq(new Version(1, 3, "a"))).toBe(false);
+        expect(a.hash()).toBe(new Version(1, 2, "b").hash());
+        expect(a.cmp(new Version(1, 10, "a"))).toBe(Ordering.Less);
+        expect(a.cmp(new Version(0, 10, "a"))).toBe(Ordering.Greater);
+    });
+
+    it("should work as collection keys", () => {
+        const map = new OrderedMap<Version, string>();
+        map.set(new Version(2, 0, "x"), "two");
+        map.set(new Version(1, 5, "y"), "one");
+        map.set(new Version(2, 0, "z"), "TWO");
+        expect(map.size).toBe(2);
+        expect(Array.from(map.values())).toEqual(["one", "TWO"]);
+    });
+});
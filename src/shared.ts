@@ -1,3 +1,6 @@
+import { mapIterator, ModificationCounter } from "./iteration";
+import type { CollectionOptions } from "./options";
+
 export enum Ordering {
     Less = -1,
     Equal = 0,
@@ -18,6 +21,19 @@ export function implementsEq<T>(x: T | Eq<T>): x is Eq<T> {
     );
 }
 
+/**
+ * A value that can be bucketed by hash. Values that are equal under `eq` must hash the same.
+ */
+export interface Hash<T> extends Eq<T> {
+    hash(): HashCode;
+}
+
+export type HashCode = number | string;
+
+export function implementsHash<T>(x: T | Hash<T>): x is Hash<T> {
+    return implementsEq(x) && "hash" in x && typeof x.hash === "function" && x.hash.length === 0;
+}
+
 export interface Cmp<T> {
     cmp(other: T): Ordering;
 }
@@ -48,6 +64,420 @@ export function defaultComparatorFn<K>(a: K, b: K): Ordering {
     return Ordering.Equal;
 }
 
+/**
+ * Hashes a value consistently with `defaultEqualityFn`. `Hash` implementers hash themselves,
+ * primitives hash by value, and other objects, tuples and plain records included, by identity.
+ * `Eq` implementers without `hash` all hash to 0; collections find those by scanning, see
+ * HashIndex.
+ */
+export function defaultHashFn<K>(key: K): HashCode {
+    if (implementsHash(key)) {
+        return key.hash();
+    }
+    if (implementsEq(key)) {
+        return 0;
+    }
+    switch (typeof key) {
+        case "number":
+        case "string":
+            return key;
+        case "boolean":
+            return key ? 1 : 0;
+        case "bigint":
+            return `${key}n`;
+        case "undefined":
+            return "undefined";
+        case "symbol":
+            return key.toString();
+    }
+    if (key === null) {
+        return "null";
+    }
+    return identityHash(key as object);
+}
+
+/**
+ * Whether `defaultHashFn` hashes the value in a way lookups can rely on: everything but `Eq`
+ * implementers without `hash`.
+ */
+export function isDefaultHashable(value: unknown): boolean {
+    return implementsHash(value) || !implementsEq(value);
+}
+
+/**
+ * Hashes tuples and plain records by their contents, recursively, and everything else with
+ * `defaultHashFn`. It agrees with `structuralEq`. Keys hashed by contents must not be mutated
+ * while they are in a collection.
+ */
+export function structuralHash<T>(value: T): HashCode {
+    return hashContents(value, new Set());
+}
+
+function hashContents(value: unknown, enclosing: Set<object>): HashCode {
+    if (!Array.isArray(value) && !isPlainRecord(value)) {
+        return defaultHashFn(value);
+    }
+    if (enclosing.has(value)) {
+        // A value that contains itself can't be compared structurally anyway.
+        return "cycle";
+    }
+    enclosing.add(value);
+    let result: number;
+    if (Array.isArray(value)) {
+        result = 1;
+        for (const item of value) {
+            result = combineHash(result, hashContents(item, enclosing));
+        }
+    } else {
+        // Summed so that records with the same fields in a different order hash the same.
+        result = 0;
+        for (const [field, item] of Object.entries(value)) {
+            result = (result + combineHash(hashString(field), hashContents(item, enclosing))) | 0;
+        }
+    }
+    enclosing.delete(value);
+    return result;
+}
+
+/**
+ * Mixes a hash code into a running hash.
+ */
+export function combineHash(seed: number, hash: HashCode): number {
+    const h = typeof hash === "number" && Number.isInteger(hash) ? hash | 0 : hashString(`${hash}`);
+    return (Math.imul(seed, 31) + h) | 0;
+}
+
+/**
+ * Hashes values regardless of their order, for collections whose equality ignores order.
+ */
+export function unorderedHash<T>(values: Iterable<T>, hashFn: (value: T) => HashCode): number {
+    let result = 0;
+    for (const value of values) {
+        result = (result + combineHash(1, hashFn(value))) | 0;
+    }
+    return result;
+}
+
+function hashString(str: string): number {
+    let result = 0;
+    for (let i = 0; i < str.length; i++) {
+        result = (Math.imul(result, 31) + str.charCodeAt(i)) | 0;
+    }
+    return result;
+}
+
+const identityHashes = new WeakMap<object, number>();
+let nextIdentityHash = 1;
+
+function identityHash(obj: object): number {
+    let result = identityHashes.get(obj);
+    if (result === undefined) {
+        result = nextIdentityHash++;
+        identityHashes.set(obj, result);
+    }
+    return result;
+}
+
+export type Comparator<T> = (a: T, b: T) => Ordering;
+
+export type EqualityFn<T> = (a: T, b: T) => boolean;
+
+/**
+ * Turns the number returned by a comparator into an Ordering.
+ */
+export function toOrdering(n: number): Ordering {
+    return n < 0 ? Ordering.Less : n > 0 ? Ordering.Greater : Ordering.Equal;
+}
+
+/**
+ * Orders values by their `Cmp` implementation or the built-in `<` and `>`.
+ */
+export function naturalOrder<T>(): Comparator<T> {
+    return defaultComparatorFn;
+}
+
+/**
+ * Orders values by a key extracted from each, compared with the given comparator.
+ */
+export function comparing<T, U>(
+    keyFn: (value: T) => U,
+    keyCmp: (a: U, b: U) => number = defaultComparatorFn,
+): Comparator<T> {
+    return (a, b) => toOrdering(keyCmp(keyFn(a), keyFn(b)));
+}
+
+/**
+ * Orders values by the first comparator, breaking ties with the next ones in turn.
+ */
+export function thenComparing<T>(
+    first: (a: T, b: T) => number,
+    ...rest: Array<(a: T, b: T) => number>
+): Comparator<T> {
+    return (a, b) => {
+        let result = first(a, b);
+        for (let i = 0; result === 0 && i < rest.length; i++) {
+            result = rest[i]!(a, b);
+        }
+        return toOrdering(result);
+    };
+}
+
+/**
+ * Reverses the given order.
+ */
+export function reversed<T>(cmp: (a: T, b: T) => number = defaultComparatorFn): Comparator<T> {
+    return (a, b) => toOrdering(cmp(b, a));
+}
+
+/**
+ * Puts null and undefined before every other value, ordering the rest with the given comparator.
+ */
+export function nullsFirst<T>(
+    cmp: (a: T, b: T) => number = defaultComparatorFn,
+): Comparator<T | null | undefined> {
+    return (a, b) => {
+        if (a == null || b == null) {
+            return a == null ? (b == null ? Ordering.Equal : Ordering.Less) : Ordering.Greater;
+        }
+        return toOrdering(cmp(a, b));
+    };
+}
+
+/**
+ * Puts null and undefined after every other value, ordering the rest with the given comparator.
+ */
+export function nullsLast<T>(
+    cmp: (a: T, b: T) => number = defaultComparatorFn,
+): Comparator<T | null | undefined> {
+    return reversed(nullsFirst(reversed(cmp)));
+}
+
+/**
+ * Orders arrays element by element, a shorter array first when it is a prefix of the other.
+ */
+export function lexicographic<T>(
+    elementCmp: (a: T, b: T) => number = defaultComparatorFn,
+): Comparator<ReadonlyArray<T>> {
+    return (a, b) => {
+        const length = Math.min(a.length, b.length);
+        for (let i = 0; i < length; i++) {
+            const result = elementCmp(a[i]!, b[i]!);
+            if (result !== 0) {
+                return toOrdering(result);
+            }
+        }
+        return toOrdering(a.length - b.length);
+    };
+}
+
+/**
+ * Orders strings with an `Intl.Collator`, such as `{ numeric: true }` for "file2" before
+ * "file10", or `{ sensitivity: "base" }` to ignore case and accents.
+ */
+export function localeCompare(
+    locales?: string | Array<string>,
+    options?: Intl.CollatorOptions,
+): Comparator<string> {
+    const collator = new Intl.Collator(locales, options);
+    return (a, b) => toOrdering(collator.compare(a, b));
+}
+
+const pairedHashFns = new WeakMap<Function, (value: never) => HashCode>();
+
+/**
+ * Records the hash function that agrees with an equality function, so collections given only
+ * the equality function can still bucket by hash.
+ * @returns the equality function
+ */
+export function pairHashFn<T, F extends EqualityFn<T>>(
+    equalityFn: F,
+    hashFn: (value: T) => HashCode,
+): F {
+    pairedHashFns.set(equalityFn, hashFn);
+    return equalityFn;
+}
+
+/**
+ * Returns the hash function recorded for an equality function, if any.
+ */
+export function hashFnFor<T>(equalityFn: EqualityFn<T>): ((value: T) => HashCode) | undefined {
+    // Recorded with the equality function, so it takes the same values.
+    return pairedHashFns.get(equalityFn) as ((value: T) => HashCode) | undefined;
+}
+
+/**
+ * Compares values by a key extracted from each.
+ */
+export function eqBy<T, U>(
+    keyFn: (value: T) => U,
+    keyEq: EqualityFn<U> = defaultEqualityFn,
+): EqualityFn<T> {
+    const result: EqualityFn<T> = (a, b) => keyEq(keyFn(a), keyFn(b));
+    const keyHash = hashFnFor(keyEq);
+    return keyHash ? pairHashFn(result, (value: T) => keyHash(keyFn(value))) : result;
+}
+
+/**
+ * Compares tuples and plain records by their contents, recursively, and everything else with
+ * `defaultEqualityFn`. It agrees with `structuralHash`.
+ */
+export function structuralEq<T>(a: T, b: T): boolean {
+    return equalContents(a, b, new Map());
+}
+
+function equalContents(a: unknown, b: unknown, comparing: Map<object, Set<object>>): boolean {
+    if (a === b) {
+        return true;
+    }
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return (
+            a.length === b.length &&
+            unlessComparing(a, b, comparing, () =>
+                a.every((item, i) => equalContents(item, b[i], comparing)),
+            )
+        );
+    }
+    if (isPlainRecord(a) && isPlainRecord(b)) {
+        const keys = Object.keys(a);
+        return (
+            keys.length === Object.keys(b).length &&
+            unlessComparing(a, b, comparing, () =>
+                keys.every(
+                    (key) => Object.hasOwn(b, key) && equalContents(a[key], b[key], comparing),
+                ),
+            )
+        );
+    }
+    return defaultEqualityFn(a, b);
+}
+
+/**
+ * Runs `compare`, unless `a` and `b` are already being compared further up, in which case they
+ * are taken to be equal so that values containing themselves don't recurse forever.
+ */
+function unlessComparing(
+    a: object,
+    b: object,
+    comparing: Map<object, Set<object>>,
+    compare: () => boolean,
+): boolean {
+    const pairs = comparing.get(a) ?? new Set<object>();
+    if (pairs.has(b)) {
+        return true;
+    }
+    comparing.set(a, pairs.add(b));
+    const result = compare();
+    pairs.delete(b);
+    return result;
+}
+
+/**
+ * Compares strings ignoring case.
+ */
+export function caseInsensitive(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
+}
+
+pairHashFn(defaultEqualityFn, defaultHashFn);
+pairHashFn(structuralEq, structuralHash);
+pairHashFn(caseInsensitive, (value: string) => value.toLowerCase());
+
+/**
+ * Implements `Eq` and `Hash` on a class by comparing and hashing the given fields with
+ * `defaultEqualityFn` and `defaultHashFn`. Declare the methods through interface merging:
+ *
+ * ```ts
+ * interface Person extends Hash<Person> {}
+ * deriveEq(Person, ["id"]);
+ * ```
+ */
+export function deriveEq<T>(
+    ctor: new (...args: never[]) => T,
+    fields: ReadonlyArray<keyof T>,
+): void {
+    Object.defineProperties(ctor.prototype, {
+        eq: {
+            configurable: true,
+            writable: true,
+            value: function eq(this: T, other: T): boolean {
+                return fields.every((field) => defaultEqualityFn(this[field], other[field]));
+            },
+        },
+        hash: {
+            configurable: true,
+            writable: true,
+            value: function hash(this: T): HashCode {
+                let result = 1;
+                for (const field of fields) {
+                    result = combineHash(result, defaultHashFn(this[field]));
+                }
+                return result;
+            },
+        },
+    });
+}
+
+/**
+ * Implements `Cmp` on a class by comparing the given fields in turn with `defaultComparatorFn`.
+ * Declare the method through interface merging, as with `deriveEq`.
+ */
+export function deriveCmp<T>(
+    ctor: new (...args: never[]) => T,
+    fields: ReadonlyArray<keyof T>,
+): void {
+    Object.defineProperty(ctor.prototype, "cmp", {
+        configurable: true,
+        writable: true,
+        value: function cmp(this: T, other: T): Ordering {
+            for (const field of fields) {
+                const result = defaultComparatorFn(this[field], other[field]);
+                if (result !== Ordering.Equal) {
+                    return result;
+                }
+            }
+            return Ordering.Equal;
+        },
+    });
+}
+
+function isPlainRecord(x: unknown): x is Record<string, unknown> {
+    if (typeof x !== "object" || x === null) {
+        return false;
+    }
+    const proto = Object.getPrototypeOf(x);
+    return proto === Object.prototype || proto === null;
+}
+
+/**
+ * The kinds of collection that `eq`, `cmp` and `hash` tell apart: a set only equals a set, a bag
+ * only a bag and a map only a map, even when they hold the same values.
+ */
+export type CollectionKind = "set" | "bag" | "map";
+
+const kindOrder: ReadonlyArray<CollectionKind> = ["set", "bag", "map"];
+
+/**
+ * Tells what kind of collection a value is: anything with `get` is a map, anything with
+ * `getCount` is a bag, and any other set-like is a set.
+ */
+export function collectionKind(collection: object): CollectionKind {
+    if (collection instanceof Map || typeof Reflect.get(collection, "get") === "function") {
+        return "map";
+    }
+    if (typeof Reflect.get(collection, "getCount") === "function") {
+        return "bag";
+    }
+    return "set";
+}
+
+/**
+ * Orders two collections by kind, sets before bags before maps, so that `cmp` only compares the
+ * contents of collections of the same kind.
+ */
+export function compareKinds(a: object, b: object): Ordering {
+    return toOrdering(kindOrder.indexOf(collectionKind(a)) - kindOrder.indexOf(collectionKind(b)));
+}
+
 export interface ReadonlySetLike<T> {
     [Symbol.iterator](): Iterator<T>;
     size: number;
@@ -64,9 +494,129 @@ export interface SetLike<T> extends ReadonlySetLike<T> {
     clear(): void;
 }
 
-export class Collection<T> extends Set<T> {
-    constructor(iterable?: Iterable<T>) {
-        super(iterable);
+/**
+ * A Set with bulk operations. Collections implement `Eq`, `Cmp` and `Hash` by their contents, so
+ * they can be elements or keys of other collections; like any key hashed by contents, they must
+ * not be changed while they are in one.
+ */
+export class Collection<T> extends Set<T> implements Hash<Collection<T>>, Cmp<Collection<T>> {
+    protected readonly modifications: ModificationCounter;
+    private _hash?: number;
+
+    constructor(iterable?: Iterable<T>, options: CollectionOptions = {}) {
+        super();
+        this.modifications = new ModificationCounter(options.iteration ?? "live");
+        if (iterable) {
+            this.addAll(iterable);
+        }
+    }
+
+    add(value: T): this {
+        const size = super.size;
+        super.add(value);
+        if (super.size !== size) {
+            this.modifications.increment();
+            this.invalidate();
+        }
+        return this;
+    }
+
+    delete(value: T): boolean {
+        const deleted = super.delete(value);
+        if (deleted) {
+            this.modifications.increment();
+            this.invalidate();
+        }
+        return deleted;
+    }
+
+    clear(): void {
+        this.modifications.increment();
+        this.invalidate();
+        super.clear();
+    }
+
+    /**
+     * Returns true if the other collection is of the same kind and has the same elements, by this
+     * collection's membership.
+     */
+    eq(other: ReadonlySetLike<unknown>): boolean {
+        if (collectionKind(other) !== collectionKind(this) || this.size !== other.size) {
+            return false;
+        }
+        for (const value of other.keys()) {
+            if (!this.has(value as T)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Orders collections by kind, then by their elements, sorted and compared in turn; a
+     * collection whose sorted elements are a prefix of the other's comes first.
+     */
+    cmp(other: ReadonlySetLike<unknown>): Ordering {
+        const kinds = compareKinds(this, other);
+        if (kinds !== Ordering.Equal) {
+            return kinds;
+        }
+        const cmp = (a: T, b: T) => this.compareElements(a, b);
+        const others = Array.from(other.keys() as Iterable<T>);
+        return lexicographic(cmp)(this.toArray().sort(cmp), others.sort(cmp));
+    }
+
+    /**
+     * Hashes the elements regardless of order. The hash is cached until the next change.
+     */
+    hash(): HashCode {
+        if (this._hash === undefined) {
+            this._hash = this.computeHash();
+        }
+        return this._hash;
+    }
+
+    /**
+     * Drops the cached hash. Called on every change.
+     */
+    invalidate(): void {
+        this._hash = undefined;
+    }
+
+    /**
+     * The order that `cmp` sorts elements in.
+     */
+    protected compareElements(a: T, b: T): number {
+        return defaultComparatorFn(a, b);
+    }
+
+    protected computeHash(): number {
+        return unorderedHash(this, defaultHashFn);
+    }
+
+    values(): IterableIterator<T> {
+        return this.modifications.iterate(
+            () => Array.from(super.values()),
+            () => super.values(),
+        );
+    }
+
+    keys(): IterableIterator<T> {
+        return this.values();
+    }
+
+    entries(): IterableIterator<[T, T]> {
+        return mapIterator(this.values(), (value): [T, T] => [value, value]);
+    }
+
+    forEach(fn: (value: T, value2: T, set: this) => void): void {
+        for (const value of this.values()) {
+            fn(value, value, this);
+        }
+    }
+
+    [Symbol.iterator](): IterableIterator<T> {
+        return this.values();
     }
 
     /**
@@ -108,7 +658,7 @@ export class Collection<T> extends Set<T> {
      */
     retainAll(set: ReadonlySetLike<T>): number {
         let result = 0;
-        for (const value of this) {
+        for (const value of this.toArray()) {
             if (!set.has(value)) {
                 this.delete(value);
                 result++;
@@ -139,7 +689,7 @@ export class Collection<T> extends Set<T> {
      */
     removeIf(predicate: (value: T) => boolean): number {
         let result = 0;
-        for (const value of this) {
+        for (const value of this.toArray()) {
             if (predicate(value)) {
                 this.delete(value);
                 result++;
@@ -147,4 +697,108 @@ export class Collection<T> extends Set<T> {
         }
         return result;
     }
+
+    /**
+     * Returns a new collection with the elements of both this collection and the specified one.
+     */
+    union<U>(other: ReadonlySetLike<U>): Collection<T | U> {
+        const result: Collection<T | U> = this.create();
+        return result.addAll(this).addAll(other.keys());
+    }
+
+    /**
+     * Returns a new collection with the elements of this collection that are also in the
+     * specified one.
+     */
+    intersection<U>(other: ReadonlySetLike<U>): Collection<T & U> {
+        const others = this.adopt(other);
+        const result = this.create();
+        for (const value of this) {
+            if (others.has(value)) {
+                result.add(value);
+            }
+        }
+        return result as Collection<T & U>;
+    }
+
+    /**
+     * Returns a new collection with the elements of this collection that are not in the
+     * specified one.
+     */
+    difference<U>(other: ReadonlySetLike<U>): Collection<T> {
+        const others = this.adopt(other);
+        const result = this.create();
+        for (const value of this) {
+            if (!others.has(value)) {
+                result.add(value);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Returns a new collection with the elements that are in exactly one of this collection and
+     * the specified one.
+     */
+    symmetricDifference<U>(other: ReadonlySetLike<U>): Collection<T | U> {
+        const result: Collection<T | U> = this.difference(other);
+        for (const value of other.keys()) {
+            if (!this.has(value as unknown as T)) {
+                result.add(value);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Returns true if every element of this collection is in the specified one.
+     */
+    isSubsetOf(other: ReadonlySetLike<unknown>): boolean {
+        const others = this.adopt(other);
+        for (const value of this) {
+            if (!others.has(value)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Returns true if every element of the specified collection is in this one.
+     */
+    isSupersetOf(other: ReadonlySetLike<unknown>): boolean {
+        for (const value of other.keys()) {
+            if (!this.has(value as T)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Returns true if this collection and the specified one have no elements in common.
+     */
+    isDisjointFrom(other: ReadonlySetLike<unknown>): boolean {
+        for (const value of other.keys()) {
+            if (this.has(value as T)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Returns a new, empty collection of the same kind, sharing this collection's equality.
+     */
+    protected create(): Collection<T> {
+        return new Collection<T>();
+    }
+
+    /**
+     * Copies the elements of a set-like into a collection of this kind, so that membership is
+     * decided by this collection's equality rather than the other's.
+     */
+    private adopt(other: ReadonlySetLike<unknown>): Collection<T> {
+        return this.create().addAll(other.keys() as Iterable<T>);
+    }
 }
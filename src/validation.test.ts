@@ -0,0 +1,136 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import { OrderedMap } from "./OrderedMap";
+import { OrderedSet } from "./OrderedSet";
+import { ValidationError, setDefaultViolationHandler, type Violation } from "./validation";
+
+type Person = { id: number; name: string };
+
+const byId = (a: Person, b: Person) => a.id === b.id;
+const byName = (a: Person, b: Person) => a.name.localeCompare(b.name);
+const idHash = (p: Person) => p.id;
+
+describe("validation", () => {
+    afterEach(() => {
+        setDefaultViolationHandler(undefined);
+    });
+
+    it("should report an equality function that disagrees with the comparator", () => {
+        const violations: Array<Violation> = [];
+        const set = new OrderedSet<Person>(undefined, byId, byName, idHash, {
+            validate: (v) => violations.push(v),
+        });
+        set.add({ id: 1, name: "Ann" });
+        set.add({ id: 2, name: "Ann" });
+        expect(violations.map((v) => v.kind)).toContain("consistency");
+        expect(violations[0]!.collection).toBe(set);
+    });
+
+    it("should throw a ValidationError with validate: true", () => {
+        const map = new OrderedMap<Person, number>(undefined, byId, byName, idHash, {
+            validate: true,
+        });
+        map.set({ id: 1, name: "Ann" }, 1);
+        expect(() => map.set({ id: 2, name: "Ann" }, 2)).toThrow(ValidationError);
+    });
+
+    it("should report a comparator that isn't antisymmetric", () => {
+        const violations: Array<Violation> = [];
+        const set = new OrderedSet<number>(
+            undefined,
+            undefined,
+            (a, b) => (a === b ? 0 : 1),
+            undefined,
+            {
+                validate: (v) => violations.push(v),
+            },
+        );
+        set.add(1);
+        set.add(2);
+        expect(violations.map((v) => v.kind)).toContain("antisymmetry");
+    });
+
+    it("should report equal values that hash differently", () => {
+        const violations: Array<Violation> = [];
+        const set = new OrderedSet<Person>(
+            undefined,
+            byId,
+            (a, b) => a.id - b.id,
+            (p) => p.name,
+            {
+                validate: (v) => violations.push(v),
+            },
+        );
+        set.add({ id: 1, name: "Ann" });
+        set.add({ id: 1, name: "Bob" });
+        expect(violations.map((v) => v.kind)).toContain("hash");
+    });
+
+    it("should detect keys mutated after insertion", () => {
+        const ann = { id: 1, name: "Ann" };
+        const map = new OrderedMap<Person, number>(
+            [
+                [ann, 1],
+                [{ id: 2, name: "Bob" }, 2],
+            ],
+            byId,
+            (a, b) => a.id - b.id,
+            idHash,
+            { validate: true },
+        );
+        expect(() => map.validate()).not.toThrow();
+        ann.id = 3;
+        expect(() => map.validate()).toThrow(ValidationError);
+    });
+
+    it("should validate on demand when validation is off", () => {
+        const values = [[1], [2], [3]];
+        const set = new OrderedSet<Array<number>>(values, undefined, (a, b) => a[0]! - b[0]!);
+        set.validate();
+        values[0]![0] = 5;
+        try {
+            set.validate();
+            throw new Error("expected a violation");
+        } catch (error) {
+            expect(error).toBeInstanceOf(ValidationError);
+            expect((error as ValidationError).violation.kind).toBe("mutated-key");
+        }
+    });
+
+    it("should not report consistent functions", () => {
+        const violations: Array<Violation> = [];
+        const set = new OrderedSet<number>([5, 3, 8, 1, 9, 2], undefined, undefined, undefined, {
+            validate: (v) => violations.push(v),
+        });
+        set.add(3);
+        set.delete(8);
+        expect(set.has(9)).toBe(true);
+        set.validate();
+        expect(violations).toEqual([]);
+    });
+
+    it("should use the default handler unless a collection opts out", () => {
+        const violations: Array<Violation> = [];
+        setDefaultViolationHandler((v) => violations.push(v));
+        const checked = new OrderedSet<Person>(undefined, byId, byName, idHash);
+        checked.add({ id: 1, name: "Ann" });
+        checked.add({ id: 2, name: "Ann" });
+        expect(violations.length).toBeGreaterThan(0);
+
+        violations.length = 0;
+        const unchecked = new OrderedSet<Person>(undefined, byId, byName, idHash, {
+            validate: false,
+        });
+        unchecked.add({ id: 1, name: "Ann" });
+        unchecked.add({ id: 2, name: "Ann" });
+        expect(violations).toEqual([]);
+    });
+
+    it("should carry validation over to derived sets", () => {
+        const violations: Array<Violation> = [];
+        const set = new OrderedSet<Person>([{ id: 1, name: "Ann" }], byId, byName, idHash, {
+            validate: (v) => violations.push(v),
+        });
+        set.union(new Set([{ id: 2, name: "Ann" }]));
+        expect(violations.map((v) => v.kind)).toContain("consistency");
+    });
+});
@@ -0,0 +1,182 @@
+import type { HashCode } from "./shared";
+
+export type ViolationKind =
+    /** cmp(a, b) and cmp(b, a) don't have opposite signs. */
+    | "antisymmetry"
+    /** a <= b and b <= c, but not a <= c. */
+    | "transitivity"
+    /** cmp(a, b) is 0 but a and b aren't equal, or the other way around. */
+    | "consistency"
+    /** Two equal values hash differently. */
+    | "hash"
+    /** A value compares or hashes differently than when it was inserted. */
+    | "mutated-key";
+
+export interface Violation {
+    kind: ViolationKind;
+    message: string;
+    /** The values involved. */
+    values: Array<unknown>;
+    /** The collection that found the violation. */
+    collection: object;
+}
+
+export type ViolationHandler = (violation: Violation) => void;
+
+export class ValidationError extends Error {
+    constructor(readonly violation: Violation) {
+        super(violation.message);
+        this.name = "ValidationError";
+    }
+}
+
+export const throwOnViolation: ViolationHandler = (violation) => {
+    throw new ValidationError(violation);
+};
+
+export const logViolation: ViolationHandler = (violation) => {
+    console.warn(`[${violation.kind}] ${violation.message}`, ...violation.values);
+};
+
+let defaultHandler: ViolationHandler | undefined;
+
+/**
+ * Turns validation on for every collection created from now on that doesn't set its own
+ * `validate` option, or off again with undefined.
+ */
+export function setDefaultViolationHandler(handler: ViolationHandler | undefined): void {
+    defaultHandler = handler;
+}
+
+/**
+ * Picks the handler for a new collection from its `validate` option and the global default.
+ * Returns undefined when validation is off, so that it costs nothing.
+ */
+export function resolveViolationHandler(
+    validate: ViolationHandler | boolean | undefined,
+): ViolationHandler | undefined {
+    if (validate === undefined) {
+        return defaultHandler;
+    }
+    if (typeof validate === "boolean") {
+        return validate ? (defaultHandler ?? throwOnViolation) : undefined;
+    }
+    return validate;
+}
+
+/**
+ * Checks that the equality, comparator and hash functions of a collection agree with each other,
+ * and that its values don't change after insertion.
+ */
+export class Validator<T> {
+    private hashes = new Map<T, HashCode>();
+
+    constructor(
+        private collection: object,
+        private handler: ViolationHandler,
+        private equalityFn: (a: T, b: T) => boolean,
+        private comparatorFn: (a: T, b: T) => number,
+        private hashFn: (value: T) => HashCode,
+    ) {}
+
+    /**
+     * Checks a value about to be inserted against a sample of the values already there, such as
+     * its neighbors in sorted order.
+     */
+    checkInsert(value: T, samples: Iterable<T | undefined>): void {
+        const sampled = new Set<T>();
+        for (const sample of samples) {
+            if (sample !== undefined && sample !== value) {
+                sampled.add(sample);
+            }
+        }
+        for (const other of sampled) {
+            this.checkPair(value, other);
+            if (this.equalityFn(value, other) && this.hashFn(value) !== this.hashFn(other)) {
+                this.report("hash", "Equal values hash differently", [value, other]);
+            }
+        }
+        const values = [value, ...sampled];
+        for (const a of values) {
+            for (const b of values) {
+                for (const c of values) {
+                    if (a !== b && b !== c && a !== c) {
+                        this.checkTriple(a, b, c);
+                    }
+                }
+            }
+        }
+        this.hashes.set(value, this.hashFn(value));
+    }
+
+    /**
+     * Checks a stored value found by equality against the value that was looked up.
+     */
+    checkFound(found: T, probe: T): void {
+        if (found !== probe) {
+            this.checkPair(found, probe);
+        }
+    }
+
+    forget(value: T): void {
+        this.hashes.delete(value);
+    }
+
+    clear(): void {
+        this.hashes.clear();
+    }
+
+    /**
+     * Checks every stored value: that they are still in order, still hash as they did when they
+     * were inserted, and can still be found.
+     * @param sorted the stored values in the collection's order
+     * @param find looks a value up by equality
+     */
+    checkAll(sorted: Iterable<T>, find: (value: T) => T | undefined): void {
+        let previous: T | undefined;
+        let first = true;
+        for (const value of sorted) {
+            if (!first && this.comparatorFn(previous as T, value) > 0) {
+                this.report("mutated-key", "Values are out of order", [previous, value]);
+            }
+            const hash = this.hashes.get(value);
+            if (hash !== undefined && hash !== this.hashFn(value)) {
+                this.report("mutated-key", "A value hashes differently than on insertion", [value]);
+            } else if (find(value) !== value) {
+                this.report("mutated-key", "A value can no longer be found by equality", [value]);
+            }
+            previous = value;
+            first = false;
+        }
+    }
+
+    private checkPair(a: T, b: T): void {
+        const ab = Math.sign(this.comparatorFn(a, b));
+        const ba = Math.sign(this.comparatorFn(b, a));
+        if (ab !== -ba) {
+            this.report("antisymmetry", "cmp(a, b) and cmp(b, a) don't have opposite signs", [
+                a,
+                b,
+            ]);
+        }
+        if ((ab === 0) !== this.equalityFn(a, b)) {
+            this.report(
+                "consistency",
+                ab === 0 ? "Values compare equal but aren't equal" : "Equal values compare unequal",
+                [a, b],
+            );
+        }
+    }
+
+    private checkTriple(a: T, b: T, c: T): void {
+        const ab = Math.sign(this.comparatorFn(a, b));
+        const bc = Math.sign(this.comparatorFn(b, c));
+        if (ab === bc && Math.sign(this.comparatorFn(a, c)) !== ab) {
+            this.report("transitivity", "cmp is not transitive", [a, b, c]);
+        }
+    }
+
+    private report(kind: ViolationKind, message: string, values: Array<unknown>): void {
+        this.handler({ kind, message, values, collection: this.collection });
+    }
+}